@@ -1,4 +1,6 @@
 import dotenv from "dotenv";
+import os from "os";
+import path from "path";
 
 dotenv.config();
 
@@ -10,7 +12,31 @@ class AppConfig {
     public readonly mongodbConnectionString = process.env.MONGODB_CONNECTION_STRING!;
     public readonly baseImageUrl = process.env.BASE_IMAGE_URL!;
     public readonly jwtSecretKey = process.env.JWT_SECRET_KEY!;
-    public readonly hashSaltKey = process.env.HASH_SALT_KEY!;
+    public readonly accessTokenExpiresIn = process.env.ACCESS_TOKEN_EXPIRES_IN || "15m"; // Short-lived JWT
+    public readonly refreshTokenDays = Number(process.env.REFRESH_TOKEN_DAYS || 30);
+    public readonly inviteExpiresDays = Number(process.env.INVITE_EXPIRES_DAYS || 7);
+    public readonly officerBootstrapCode = process.env.OFFICER_BOOTSTRAP_CODE; // Lets the first officer register while none exists
+    public readonly authUserCacheSeconds = Number(process.env.AUTH_USER_CACHE_SECONDS || 30); // How stale a role may be per request
+    public readonly hashSaltKey = process.env.HASH_SALT_KEY!; // Only for verifying legacy HMAC password hashes
+    public readonly bcryptRounds = Number(process.env.BCRYPT_ROUNDS || 12); // Password hashing cost factor
+    public readonly timeZone = process.env.TIME_ZONE || "Asia/Jerusalem"; // Shift "HH:MM" times are local to this zone
+    public readonly waitlistOfferHours = Number(process.env.WAITLIST_OFFER_HOURS || 12); // Time to accept a freed spot
+    public readonly minRestHours = Number(process.env.MIN_REST_HOURS ?? 8); // Required gap between a volunteer's shifts
+    public readonly shiftWindowGraceMinutes = Number(process.env.SHIFT_WINDOW_GRACE_MINUTES ?? 30); // Allowed slack around a shift's window
+    public readonly autoLockHours = Number(process.env.AUTO_LOCK_HOURS ?? 24); // Shifts lock this long before they start (0 = at start)
+    public readonly lateArrivalMinutes = Number(process.env.LATE_ARRIVAL_MINUTES ?? 10); // Check-in this long after the planned arrival counts as late
+
+    // Mail: "smtp" (real server or local catcher such as MailHog), "file" (.eml outbox) or "none"
+    public readonly mailTransport = (process.env.MAIL_TRANSPORT || (this.isProduction ? "smtp" : "file")) as "smtp" | "file" | "none";
+    public readonly mailFrom = process.env.MAIL_FROM || "Police Volunteers <no-reply@police-volunteers.local>";
+    public readonly smtpHost = process.env.SMTP_HOST || "localhost";
+    public readonly smtpPort = Number(process.env.SMTP_PORT || 1025);
+    public readonly smtpSecure = (process.env.SMTP_SECURE === "true");
+    public readonly smtpUser = process.env.SMTP_USER;
+    public readonly smtpPassword = process.env.SMTP_PASSWORD;
+    public readonly frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173"; // Used for links in emails
+    public readonly passwordResetTokenMinutes = Number(process.env.PASSWORD_RESET_TOKEN_MINUTES || 30);
+    public readonly mailOutboxDir = process.env.MAIL_OUTBOX_DIR || path.join(os.tmpdir(), "police-volunteers-outbox");
 }
 
 export const appConfig = new AppConfig();
@@ -0,0 +1,18 @@
+// A CSV column: header text and how to read the value from a row
+export type CsvColumn<T> = { header: string; value: (row: T) => string | number | null | undefined };
+
+// Quote a cell when needed; cells starting with = + - @ are prefixed so spreadsheets don't run them as formulas
+function cell(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return "";
+    if (typeof value === "number") return String(value);
+    let text = /^[=+\-@]/.test(value) ? "'" + value : value;
+    if (/[",\r\n]/.test(text)) text = '"' + text.replace(/"/g, '""') + '"';
+    return text;
+}
+
+// Render rows as CSV (with a BOM so Excel reads Hebrew as UTF-8)
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+    const lines = [columns.map(c => cell(c.header)).join(",")];
+    for (const row of rows) lines.push(columns.map(c => cell(c.value(row))).join(","));
+    return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
@@ -2,32 +2,84 @@ import crypto from "crypto";
 import jwt, { SignOptions } from "jsonwebtoken";
 import { IUser } from "../3-models/user-model";
 import { appConfig } from "./app-config";
+import bcrypt from "bcryptjs";
 
+// Custom JWT claims (subject id is the standard "sub" claim)
+type TokenClaims = { ver: number };
+
+// Marker + version of the current password hash format
+const PASSWORD_SCHEME = "bcrypt$1$";
 
 // Utility class for hashing and JWT
 class Cyber {
 
-    // Hash password with SHA512 + salt from config
-    public hash(plaintext: string): string {
-        // Hash with salt:
-        const hashText = crypto.createHmac("sha512", appConfig.hashSaltKey).update(plaintext).digest("hex");
-        return hashText;
+    // Hash password with bcrypt (per-password salt, configurable cost), prefixed with a scheme marker
+    public async hash(plaintext: string): Promise<string> {
+        const hashText = await bcrypt.hash(plaintext, appConfig.bcryptRounds);
+        return PASSWORD_SCHEME + hashText;
+    }
+
+    /**
+     * Verify a password against a stored hash.
+     * - Current format: "bcrypt$1$<bcrypt hash>".
+     * - Legacy format: HMAC-SHA512 hex with the global HASH_SALT_KEY (no marker).
+     * needsRehash is true for legacy hashes or an outdated cost factor, so callers can upgrade on login.
+     */
+    public async verifyPassword(plaintext: string, stored: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+        if (!stored) return { valid: false, needsRehash: false };
+
+        if (stored.startsWith(PASSWORD_SCHEME)) {
+            const hashText = stored.substring(PASSWORD_SCHEME.length);
+            const valid = await bcrypt.compare(plaintext, hashText);
+            return { valid, needsRehash: valid && bcrypt.getRounds(hashText) !== appConfig.bcryptRounds };
+        }
+
+        // Legacy HMAC hash:
+        const legacy = Buffer.from(this.legacyHash(plaintext));
+        const storedBuffer = Buffer.from(stored);
+        const valid = legacy.length === storedBuffer.length && crypto.timingSafeEqual(legacy, storedBuffer);
+        return { valid, needsRehash: valid };
+    }
+
+    // Legacy: HMAC-SHA512 with the global salt key from config (verification only)
+    private legacyHash(plaintext: string): string {
+        return crypto.createHmac("sha512", appConfig.hashSaltKey).update(plaintext).digest("hex");
     }
 
-    // Generate JWT for user
-    public generateToken(user: IUser): string {
-        // Remove password field for token safety
-        (user as any).password = undefined;
+    // Random URL-safe token (e.g. password reset links)
+    public generateRandomToken(): string {
+        return crypto.randomBytes(32).toString("hex");
+    }
+
+    // Short code that can be typed by hand (e.g. invite codes)
+    public generateShortCode(): string {
+        return crypto.randomBytes(6).toString("hex").toUpperCase();
+    }
+
+    // Constant-time comparison of two secrets (hashed first, so their lengths don't leak either)
+    public safeEqual(a: string, b: string): boolean {
+        const digest = (text: string) => crypto.createHash("sha256").update(text).digest();
+        return crypto.timingSafeEqual(digest(a), digest(b));
+    }
+
+    // One-way hash for random tokens stored in the database (no salt needed - tokens are high entropy)
+    public hashToken(token: string): string {
+        return crypto.createHash("sha256").update(token).digest("hex");
+    }
 
-        // Place user in container (so we can expand with more fields later if needed)
-        const container = { user };
+    // Generate JWT for user: only the subject id and token version (role etc. are resolved per request)
+    public generateToken(user: Pick<IUser, "_id" | "tokenVersion">): string {
+        const claims: TokenClaims = { ver: user.tokenVersion ?? 0 };
 
         // JWT options
-        const options: SignOptions = { expiresIn: "3h" };
+        const options: SignOptions = {
+            subject: String(user._id),
+            expiresIn: appConfig.accessTokenExpiresIn as SignOptions["expiresIn"]
+        };
         const secretKey = appConfig.jwtSecretKey;
 
         // Create and return JWT
-        const token = jwt.sign(container, secretKey, options);
+        const token = jwt.sign(claims, secretKey, options);
         return token;
     }
 
@@ -42,11 +94,12 @@ class Cyber {
             return false;
         }
     }
-    // In cyber.ts
-    public getUserFromToken(token: string): IUser | null {
+    // Read the subject id and token version from a valid token
+    public getClaimsFromToken(token: string): { userId: string; tokenVersion: number } | null {
         try {
-            const container = jwt.verify(token, appConfig.jwtSecretKey) as { user: IUser };
-            return container.user;
+            const payload = jwt.verify(token, appConfig.jwtSecretKey) as TokenClaims & { sub?: string };
+            if (!payload.sub) return null;
+            return { userId: payload.sub, tokenVersion: payload.ver ?? 0 };
         } catch {
             return null;
         }
@@ -0,0 +1,125 @@
+import { Language } from "../3-models/language";
+import { RegistrationStatus } from "../3-models/registration-status";
+import { appConfig } from "./app-config";
+
+// Shift details shown in emails
+export type ShiftSummary = {
+    date: Date;
+    unit: string;
+    shiftType: string;
+    window: { start: string; end: string };
+};
+
+// Rendered email content
+export type EmailContent = { subject: string; text: string; html: string };
+
+// Event names with their extra template data
+export type EmailEvent =
+    | { kind: "registrationReceived"; waitlisted: boolean }
+    | { kind: "registrationReviewed"; status: RegistrationStatus; reason?: string }
+    | { kind: "waitlistOffer"; expiresAt: Date }
+    | { kind: "offerExpired" }
+    | { kind: "shiftChanged"; changes: string[] }
+    | { kind: "shiftCancelled"; reason?: string }
+    | { kind: "passwordReset"; resetUrl: string; expiresInMinutes: number };
+
+// Escape user-provided values for the HTML part
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+}
+
+// Shift dates are stored as a calendar day (midnight UTC)
+function formatDate(date: Date, language: Language): string {
+    const locale = language === Language.Hebrew ? "he-IL" : "en-GB";
+    return new Intl.DateTimeFormat(locale, { timeZone: "UTC", weekday: "long", day: "numeric", month: "long", year: "numeric" }).format(date);
+}
+
+// Real instants (e.g. deadlines) are shown in local time
+function formatDateTime(date: Date, language: Language): string {
+    const locale = language === Language.Hebrew ? "he-IL" : "en-GB";
+    return new Intl.DateTimeFormat(locale, { timeZone: appConfig.timeZone, dateStyle: "medium", timeStyle: "short" }).format(date);
+}
+
+function shiftLine(shift: ShiftSummary, language: Language): string {
+    const date = formatDate(new Date(shift.date), language);
+    return `${shift.shiftType} · ${shift.unit} · ${date} · ${shift.window.start}–${shift.window.end}`;
+}
+
+// Subject + body lines per event and language
+function lines(event: EmailEvent, shiftText: string, language: Language): { subject: string; body: string[] } {
+    const he = language === Language.Hebrew;
+    switch (event.kind) {
+        case "registrationReceived":
+            return event.waitlisted
+                ? {
+                    subject: he ? "נרשמת לרשימת ההמתנה" : "You are on the waitlist",
+                    body: [he ? "המשמרת מלאה ולכן נוספת לרשימת ההמתנה:" : "The shift is full, so you were added to the waitlist:", shiftText,
+                        he ? "נעדכן אותך אם יתפנה מקום." : "We will let you know if a spot opens up."]
+                }
+                : {
+                    subject: he ? "הרשמתך למשמרת התקבלה" : "Your shift registration was received",
+                    body: [he ? "הרשמתך התקבלה וממתינה לאישור קצין:" : "Your registration was received and is awaiting officer approval:", shiftText]
+                };
+        case "registrationReviewed": {
+            const reason = event.reason ? [(he ? "סיבה: " : "Reason: ") + event.reason] : [];
+            if (event.status === RegistrationStatus.Approved) return {
+                subject: he ? "הרשמתך למשמרת אושרה" : "Your shift registration was approved",
+                body: [he ? "הרשמתך אושרה:" : "Your registration was approved:", shiftText, ...reason]
+            };
+            if (event.status === RegistrationStatus.Rejected) return {
+                subject: he ? "הרשמתך למשמרת נדחתה" : "Your shift registration was declined",
+                body: [he ? "הרשמתך למשמרת הבאה לא אושרה:" : "Your registration for this shift was not approved:", shiftText, ...reason]
+            };
+            return {
+                subject: he ? "אישור ההרשמה למשמרת בוטל" : "Your shift approval was withdrawn",
+                body: [he ? "אישור ההרשמה שלך בוטל והיא ממתינה שוב לבדיקה:" : "Your approval was withdrawn and the registration is pending again:", shiftText, ...reason]
+            };
+        }
+        case "waitlistOffer": {
+            const deadline = formatDateTime(event.expiresAt, language);
+            return {
+                subject: he ? "התפנה מקום במשמרת - נא לאשר" : "A spot opened up - please confirm",
+                body: [he ? "התפנה מקום ברשימה הראשית של המשמרת:" : "A spot opened up in the main list of this shift:", shiftText,
+                    he ? `המקום שמור עבורך עד ${deadline}. יש לאשר או לוותר באפליקציה.` : `It is held for you until ${deadline}. Please accept or decline in the app.`]
+            };
+        }
+        case "offerExpired":
+            return {
+                subject: he ? "ההצעה למקום במשמרת פגה" : "Your shift offer expired",
+                body: [he ? "לא התקבל מענה להצעה ולכן המקום הועבר לממתין/ה הבא/ה, והוסרת מרשימת ההמתנה:" : "The offer was not answered, so the spot moved to the next person and you were removed from the waitlist:", shiftText]
+            };
+        case "shiftChanged":
+            return {
+                subject: he ? "עדכון במשמרת שלך" : "Your shift was updated",
+                body: [he ? "חל שינוי במשמרת שאליה נרשמת:" : "A shift you registered for has changed:", shiftText, ...event.changes]
+            };
+        case "shiftCancelled":
+            return {
+                subject: he ? "המשמרת בוטלה" : "Your shift was cancelled",
+                body: [he ? "המשמרת הבאה בוטלה:" : "The following shift was cancelled:", shiftText,
+                    ...(event.reason ? [(he ? "סיבה: " : "Reason: ") + event.reason] : [])]
+            };
+        case "passwordReset":
+            return {
+                subject: he ? "איפוס סיסמה" : "Password reset",
+                body: [he ? "התקבלה בקשה לאיפוס הסיסמה שלך. לבחירת סיסמה חדשה:" : "We received a request to reset your password. To choose a new one:",
+                    event.resetUrl,
+                    he ? `הקישור תקף ל-${event.expiresInMinutes} דקות ולשימוש אחד. אם לא ביקשת איפוס, אפשר להתעלם מהודעה זו.`
+                        : `The link works once and expires in ${event.expiresInMinutes} minutes. If you did not ask for a reset, ignore this email.`]
+            };
+    }
+}
+
+// Render an email for the given event (shift is omitted for account emails)
+export function renderEmail(event: EmailEvent, params: { fullName: string; language: Language; shift?: ShiftSummary }): EmailContent {
+    const { fullName, language, shift } = params;
+    const he = language === Language.Hebrew;
+    const { subject, body } = lines(event, shift ? shiftLine(shift, language) : "", language);
+    const greeting = he ? `שלום ${fullName},` : `Hello ${fullName},`;
+    const signature = he ? "מערך המתנדבים" : "Volunteer Coordination";
+    const all = [greeting, ...body.filter(Boolean), signature];
+
+    const text = all.join("\n\n");
+    const html = `<div dir="${he ? "rtl" : "ltr"}">${all.map(l => `<p>${escapeHtml(l)}</p>`).join("")}</div>`;
+    return { subject, text, html };
+}
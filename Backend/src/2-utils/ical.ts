@@ -0,0 +1,77 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for subscription feeds.
+ * Times are written in UTC; calendar apps show them in the user's zone.
+ */
+
+export type CalendarEvent = {
+    uid: string;         // Stable per event, so updates replace the earlier copy
+    sequence: number;    // Must grow with every change
+    start: Date;
+    end: Date;
+    summary: string;
+    location?: string;
+    description?: string;
+    status: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+    lastModified?: Date;
+};
+
+// 20250327T193000Z
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Escape TEXT values
+function escapeText(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Fold content lines longer than 75 octets (continuation lines start with a space)
+function fold(line: string): string {
+    const parts: string[] = [];
+    let current = "";
+    let size = 0;
+    for (const ch of line) {
+        const bytes = Buffer.byteLength(ch);
+        if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = "";
+            size = 0;
+        }
+        current += ch;
+        size += bytes;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+// Render a VCALENDAR with the given events
+export function toICalendar(name: string, events: CalendarEvent[], now = new Date()): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Police Volunteers//Shifts//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(name)}`,
+        "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+        "X-PUBLISHED-TTL:PT1H"
+    ];
+    for (const e of events) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${e.uid}`,
+            `DTSTAMP:${formatUtc(now)}`,
+            `SEQUENCE:${e.sequence}`,
+            `DTSTART:${formatUtc(e.start)}`,
+            `DTEND:${formatUtc(e.end)}`,
+            `SUMMARY:${escapeText(e.summary)}`,
+            `STATUS:${e.status}`
+        );
+        if (e.location) lines.push(`LOCATION:${escapeText(e.location)}`);
+        if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+        if (e.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(e.lastModified)}`);
+        lines.push("END:VEVENT");
+    }
+    lines.push("END:VCALENDAR");
+    return lines.map(fold).join("\r\n") + "\r\n";
+}
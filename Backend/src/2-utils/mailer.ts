@@ -0,0 +1,79 @@
+import fs from "fs";
+import path from "path";
+import nodemailer, { Transporter } from "nodemailer";
+import { v4 as uuid } from "uuid";
+import { appConfig } from "./app-config";
+
+// A single outgoing email
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+};
+
+// Anything that can deliver a message (swap in tests or development)
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+// Sends through an SMTP server (real relay or a local catcher such as MailHog)
+export class SmtpTransport implements MailTransport {
+    private transporter: Transporter;
+
+    public constructor() {
+        this.transporter = nodemailer.createTransport({
+            host: appConfig.smtpHost,
+            port: appConfig.smtpPort,
+            secure: appConfig.smtpSecure,
+            auth: appConfig.smtpUser ? { user: appConfig.smtpUser, pass: appConfig.smtpPassword } : undefined
+        });
+    }
+
+    public async send(message: MailMessage): Promise<void> {
+        await this.transporter.sendMail({ from: appConfig.mailFrom, ...message });
+    }
+}
+
+// Writes each message as an .eml file into an outbox directory
+export class FileOutboxTransport implements MailTransport {
+    private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+    public constructor(private readonly dir: string) { }
+
+    public async send(message: MailMessage): Promise<void> {
+        const info = await this.transporter.sendMail({ from: appConfig.mailFrom, ...message });
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        const fileName = `${Date.now()}-${uuid()}.eml`;
+        await fs.promises.writeFile(path.join(this.dir, fileName), info.message as Buffer);
+    }
+}
+
+// Drops messages (mail disabled)
+export class NullTransport implements MailTransport {
+    public async send(): Promise<void> { }
+}
+
+// Mail facade used by services
+class Mailer {
+    private transport: MailTransport = Mailer.createDefaultTransport();
+
+    private static createDefaultTransport(): MailTransport {
+        switch (appConfig.mailTransport) {
+            case "smtp": return new SmtpTransport();
+            case "none": return new NullTransport();
+            default: return new FileOutboxTransport(appConfig.mailOutboxDir);
+        }
+    }
+
+    // Replace the transport (tests, local tooling)
+    public setTransport(transport: MailTransport): void {
+        this.transport = transport;
+    }
+
+    public send(message: MailMessage): Promise<void> {
+        return this.transport.send(message);
+    }
+}
+
+export const mailer = new Mailer();
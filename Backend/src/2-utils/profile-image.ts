@@ -0,0 +1,30 @@
+import path from "path";
+import fs from "fs";
+import { Request } from "express";
+
+// Default profile images (relative to 1-assets/)
+const DEFAULT_MALE_IMAGE = "default-profile-pics/male-user-default-pic.webp";
+const DEFAULT_FEMALE_IMAGE = "default-profile-pics/female-user-default-pic.webp";
+
+// Returns the default profile image path for a given gender
+export function getDefaultImageByGender(gender: string): string {
+    return gender?.toLowerCase() === "female" ? DEFAULT_FEMALE_IMAGE : DEFAULT_MALE_IMAGE;
+}
+
+// Uploaded (personal) profile images live here
+const PROFILE_PICS_DIR = path.join(__dirname, "..", "1-assets", "profile-pics");
+
+// Deletes a user-specific profile image from disk if it exists in the profile-pics directory. Shared default images are never deleted.
+export function safeDeleteProfileImageIfPersonal(relativePath?: string): void {
+    if (!relativePath?.startsWith("profile-pics/")) return;
+    // The resolved file must stay inside profile-pics (no "../" escapes)
+    const absolute = path.resolve(PROFILE_PICS_DIR, relativePath.substring("profile-pics/".length));
+    if (path.dirname(absolute) !== PROFILE_PICS_DIR) return;
+    if (fs.existsSync(absolute)) fs.unlinkSync(absolute);
+}
+
+// Clickable URL of a profile image, served from /1-assets on this host
+export function profileImageUrl(request: Request, relativePath?: string): string | null {
+    const assetsBase = `${request.protocol}://${request.get("host")}/1-assets/`;
+    return relativePath ? assetsBase + relativePath : null;
+}
@@ -0,0 +1,52 @@
+import { VolunteerType } from "../3-models/volunteer-type";
+import { ShiftRequirements } from "../3-models/shift-model";
+
+/**
+ * Shift composition rules: minimum volunteers per stage and minimum drivers.
+ * A volunteer counts towards their stage and, if licensed, towards the drivers at the same time.
+ */
+
+// The qualifications of one registration
+export type CompositionMember = { volunteerType: string; hasDriverLicense?: boolean };
+
+export type UnmetRequirement =
+    | { requirement: "volunteerType"; volunteerType: VolunteerType; required: number; have: number; missing: number }
+    | { requirement: "drivers"; required: number; have: number; missing: number };
+
+// Requirements the given members do not satisfy (empty when composition is complete)
+export function unmetRequirements(requirements: ShiftRequirements | undefined, members: CompositionMember[]): UnmetRequirement[] {
+    const unmet: UnmetRequirement[] = [];
+    for (const { volunteerType, min } of requirements?.volunteerTypes ?? []) {
+        const have = members.filter(m => m.volunteerType === volunteerType).length;
+        if (have < min) unmet.push({ requirement: "volunteerType", volunteerType, required: min, have, missing: min - have });
+    }
+
+    const drivers = requirements?.drivers ?? 0;
+    const haveDrivers = members.filter(m => m.hasDriverLicense).length;
+    if (haveDrivers < drivers) unmet.push({ requirement: "drivers", required: drivers, have: haveDrivers, missing: drivers - haveDrivers });
+    return unmet;
+}
+
+// Fewest extra volunteers that could still complete the composition (stages don't overlap; drivers can be any stage)
+export function slotsNeeded(requirements: ShiftRequirements | undefined, members: CompositionMember[]): number {
+    let stages = 0;
+    let drivers = 0;
+    for (const u of unmetRequirements(requirements, members)) {
+        if (u.requirement === "volunteerType") stages += u.missing;
+        else drivers = u.missing;
+    }
+    return Math.max(stages, drivers);
+}
+
+/**
+ * Whether a candidate may take one of `free` remaining slots.
+ * With reservation on, the remaining slots are held for whoever fills a missing requirement.
+ */
+export function mayTakeSlot(requirements: ShiftRequirements | undefined, members: CompositionMember[], candidate: CompositionMember, free: number): boolean {
+    if (free <= 0) return false;
+    if (!requirements?.reserveSlots) return true;
+
+    const needed = slotsNeeded(requirements, members);
+    if (slotsNeeded(requirements, [...members, candidate]) < needed) return true;
+    return free - 1 >= needed;
+}
@@ -0,0 +1,141 @@
+import { ShiftType, ShiftWindow, shiftTypeWindows } from "../3-models/shift-type";
+import { appConfig } from "./app-config";
+
+// "HH:MM" 24h format
+export const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// What the time helpers need to know about a shift
+type ShiftTiming = { date: Date; shiftType: ShiftType; timeWindow?: Partial<ShiftWindow> };
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Longest date range a single request may cover (about one quarter)
+export const MAX_RANGE_DAYS = 93;
+
+// Validated date range (e.g. from query values): real dates, from <= to, spanning at most maxDays
+export function resolveDateRange(from: unknown, to: unknown, maxDays = MAX_RANGE_DAYS): { from: Date; to: Date } {
+    const start = new Date(from as string | Date), end = new Date(to as string | Date);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) throw new Error("Invalid date range");
+    if (start > end) throw new Error("'from' must be before 'to'");
+    if ((end.getTime() - start.getTime()) / DAY_MS > maxDays) throw new Error(`Date range is limited to ${maxDays} days`);
+    return { from: start, to: end };
+}
+
+// Normalize a date to midnight UTC (shift dates are stored per day)
+export function startOfDay(d: Date): Date {
+    return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+// Minutes since midnight for "HH:MM"
+export function toMinutes(hhmm: string): number {
+    const [h, m] = hhmm.split(":").map(Number);
+    return h * 60 + m;
+}
+
+// Offset (ms) of the configured time zone from UTC at the given instant
+function zoneOffset(instant: Date): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: appConfig.timeZone,
+        hourCycle: "h23",
+        year: "numeric", month: "2-digit", day: "2-digit",
+        hour: "2-digit", minute: "2-digit", second: "2-digit"
+    }).formatToParts(instant);
+    const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+    const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Real instant of a local "HH:MM" on the (calendar) day of shiftDate, plus dayOffset days.
+ * Shift dates are stored as a day (midnight UTC), times are local to appConfig.timeZone.
+ */
+export function localInstant(shiftDate: Date, hhmm: string, dayOffset = 0): Date {
+    const [h, m] = hhmm.split(":").map(Number);
+    const guess = Date.UTC(shiftDate.getUTCFullYear(), shiftDate.getUTCMonth(), shiftDate.getUTCDate() + dayOffset, h, m);
+    const first = guess - zoneOffset(new Date(guess));
+    // Re-check around DST changes
+    return new Date(guess - zoneOffset(new Date(first)));
+}
+
+// Effective window of a shift: its own override, else the canonical window of its type
+export function shiftWindow(shift: ShiftTiming): ShiftWindow {
+    const own = shift.timeWindow;
+    if (own?.start && own?.end) return { start: own.start, end: own.end };
+    return shiftTypeWindows[shift.shiftType];
+}
+
+// True if the window crosses midnight
+export function isOvernight(window: ShiftWindow): boolean {
+    return toMinutes(window.end) <= toMinutes(window.start);
+}
+
+// Day offset (0 = shift date, 1 = next day) of a local time within an overnight window.
+// Times in the daytime gap are split at its midpoint: earlier belongs to the morning after.
+function dayOffsetOf(window: ShiftWindow, hhmm: string): number {
+    if (!isOvernight(window)) return 0;
+    const split = (toMinutes(window.end) + toMinutes(window.start)) / 2;
+    return toMinutes(hhmm) < split ? 1 : 0;
+}
+
+// Start/end instants of the shift's effective window
+export function windowRange(shift: ShiftTiming): { start: Date; end: Date } {
+    const window = shiftWindow(shift);
+    const date = new Date(shift.date);
+    return {
+        start: localInstant(date, window.start),
+        end: localInstant(date, window.end, isOvernight(window) ? 1 : 0)
+    };
+}
+
+/**
+ * Resolve arrival/leaving "HH:MM" strings of a registration to start/end instants.
+ * - Overnight windows: times in the morning belong to the day after the shift date,
+ *   and leaving may be earlier on the clock than arrival.
+ * - Other windows: both times are on the shift date and leaving must be after arrival.
+ * Throws on invalid format or an empty/negative range.
+ */
+export function resolveRange(shift: ShiftTiming, arrivalTime: string, leavingTime: string): { arrivalAt: Date; leavingAt: Date } {
+    if (!HHMM.test(arrivalTime) || !HHMM.test(leavingTime)) throw new Error("arrivalTime/leavingTime must be HH:MM");
+
+    const window = shiftWindow(shift);
+    const date = new Date(shift.date);
+    const arrivalOffset = dayOffsetOf(window, arrivalTime);
+    const leavingOffset = Math.max(dayOffsetOf(window, leavingTime), arrivalOffset);
+
+    const arrivalAt = localInstant(date, arrivalTime, arrivalOffset);
+    const leavingAt = localInstant(date, leavingTime, leavingOffset);
+    if (leavingAt <= arrivalAt) throw new Error("leavingTime must be after arrivalTime");
+    if (leavingAt.getTime() - arrivalAt.getTime() >= DAY_MS) throw new Error("Registration cannot exceed 24 hours");
+
+    return { arrivalAt, leavingAt };
+}
+
+// Start/end instants of a stored registration (computed for records saved before instants existed)
+export function registrationRange(shift: ShiftTiming, rec: { arrivalTime: string; leavingTime: string; arrivalAt?: Date; leavingAt?: Date }): { arrivalAt: Date; leavingAt: Date } | null {
+    if (rec.arrivalAt && rec.leavingAt) return { arrivalAt: new Date(rec.arrivalAt), leavingAt: new Date(rec.leavingAt) };
+    try {
+        return resolveRange(shift, rec.arrivalTime, rec.leavingTime);
+    } catch {
+        return null; // Placeholder or malformed times
+    }
+}
+
+// Hours between two instants, rounded to 2 decimals
+export function hoursBetween(start: Date, end: Date): number {
+    return Math.round(((end.getTime() - start.getTime()) / HOUR_MS) * 100) / 100;
+}
+
+// Hours actually worked: check-in to check-out, 0 for a no-show, null while not recorded
+export function workedHours(rec: { attendance?: { checkedInAt?: Date; checkedOutAt?: Date; noShow?: boolean } }): number | null {
+    const a = rec.attendance;
+    if (a?.noShow) return 0;
+    if (!a?.checkedInAt || !a?.checkedOutAt) return null;
+    return hoursBetween(new Date(a.checkedInAt), new Date(a.checkedOutAt));
+}
+
+// Minutes a check-in came after the planned arrival (0 when on time or unknown)
+export function lateMinutes(plannedArrival: Date | undefined, checkedInAt: Date | undefined): number {
+    if (!plannedArrival || !checkedInAt) return 0;
+    return Math.max(0, Math.round((new Date(checkedInAt).getTime() - new Date(plannedArrival).getTime()) / 60000));
+}
@@ -0,0 +1,29 @@
+// Small in-memory cache with per-entry expiry
+export class TtlCache<T> {
+    private entries = new Map<string, { value: T; expiresAt: number }>();
+
+    public constructor(private readonly ttlMs: number, private readonly maxEntries = 1000) { }
+
+    public get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    public set(key: string, value: T): void {
+        // Drop the oldest entry when full (Map keeps insertion order)
+        if (this.entries.size >= this.maxEntries && !this.entries.has(key)) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest !== undefined) this.entries.delete(oldest);
+        }
+        this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    }
+
+    public delete(key: string): void {
+        this.entries.delete(key);
+    }
+}
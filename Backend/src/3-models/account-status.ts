@@ -0,0 +1,5 @@
+export enum AccountStatus {
+    Pending = "pending",         // Self-registered, waiting for an officer
+    Active = "active",
+    Deactivated = "deactivated"
+}
@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Who made a change: a logged-in user, a background job, or the server itself (errors)
+export type AuditSource = "user" | "scheduler" | "system";
+
+export type AuditTargetType = "shift" | "user" | "request";
+
+export type AuditAction =
+    | "shift.create"
+    | "shift.update"
+    | "shift.delete"
+    | "shift.status"             // publish / lock / reopen / cancel
+    | "registration.register"    // main list or waitlist (details.waitlisted)
+    | "registration.unregister"
+    | "registration.offer"       // waitlist promotion offered
+    | "registration.offerExpired"
+    | "registration.promote"     // promotion offer accepted
+    | "registration.decline"
+    | "registration.review"      // approved / rejected / back to pending
+    | "user.register"
+    | "user.create"              // by an officer
+    | "user.update"              // profile or declared availability
+    | "user.status"
+    | "user.volunteerType"
+    | "user.driverLicense"
+    | "user.password"            // changed or reset (values are never logged)
+    | "user.delete"
+    | "system.error";
+
+// One changed field (values as they were stored)
+export type AuditChange = {
+    field: string;
+    before?: any;
+    after?: any;
+};
+
+// Append-only record of who did what to which shift / account, and when
+export interface IAuditLog extends Document {
+    source: AuditSource;
+    actorId?: mongoose.Types.ObjectId; // Absent for scheduler / system entries
+    action: AuditAction;
+    targetType: AuditTargetType;
+    targetId?: mongoose.Types.ObjectId;
+    subjectId?: mongoose.Types.ObjectId; // The volunteer a registration action is about
+    changes: AuditChange[];
+    reason?: string;
+    details?: Record<string, any>;
+    createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>({
+    source: {
+        type: String,
+        enum: ["user", "scheduler", "system"],
+        required: [true, "Missing source."]
+    },
+    actorId: {
+        type: Schema.Types.ObjectId,
+        ref: "User"
+    },
+    action: {
+        type: String,
+        required: [true, "Missing action."]
+    },
+    targetType: {
+        type: String,
+        enum: ["shift", "user", "request"],
+        required: [true, "Missing target type."]
+    },
+    targetId: { type: Schema.Types.ObjectId },
+    subjectId: {
+        type: Schema.Types.ObjectId,
+        ref: "User"
+    },
+    changes: {
+        type: [{
+            _id: false,
+            field: { type: String, required: true },
+            before: { type: Schema.Types.Mixed },
+            after: { type: Schema.Types.Mixed }
+        }],
+        default: []
+    },
+    reason: { type: String, maxlength: 500 },
+    details: { type: Schema.Types.Mixed }
+}, { timestamps: { createdAt: true, updatedAt: false }, versionKey: false });
+
+// Query paths: a shift's / account's history, an actor's actions, a volunteer's registrations, recent entries
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+AuditLogSchema.index({ subjectId: 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+AuditLogSchema.index({ createdAt: -1 });
+
+export const AuditLogModel = mongoose.model<IAuditLog>("AuditLog", AuditLogSchema);
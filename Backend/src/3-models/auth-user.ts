@@ -0,0 +1,10 @@
+import { UserRole } from "./role";
+import { AccountStatus } from "./account-status";
+
+// The current user as attached to the request by securityMiddleware.verifyToken (resolved from the database, not the token)
+export type AuthUser = {
+    _id: string;
+    role: UserRole;
+    status: AccountStatus;
+    tokenVersion: number;
+};
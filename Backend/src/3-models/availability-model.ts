@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { Unit } from "./unit";
+import { ShiftType } from "./shift-type";
+
+// A volunteer's declared availability and preferences (one document per volunteer)
+export interface IAvailability extends Document {
+    userId: mongoose.Types.ObjectId;
+    weekly: Array<{ // Recurring slots the volunteer can usually take
+        weekday: number; // 0 = Sunday ... 6 = Saturday
+        shiftType: ShiftType;
+    }>;
+    preferredUnits: Unit[];
+    blackoutDates: Array<{ // Days the volunteer can't take shifts (inclusive, by day)
+        from: Date;
+        to: Date;
+        reason?: string;
+    }>;
+    maxShiftsPerMonth?: number; // No limit when missing
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const AvailabilitySchema = new Schema<IAvailability>({
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: [true, "Missing user ID."],
+        unique: true
+    },
+    weekly: [
+        {
+            _id: false,
+            weekday: {
+                type: Number,
+                min: [0, "Invalid weekday."],
+                max: [6, "Invalid weekday."],
+                required: [true, "Missing weekday."]
+            },
+            shiftType: {
+                type: String,
+                enum: Object.values(ShiftType), // Shift type enum
+                required: [true, "Missing shift type."]
+            }
+        }
+    ],
+    preferredUnits: [{ type: String, enum: Object.values(Unit) }],
+    blackoutDates: [
+        {
+            _id: false,
+            from: { type: Date, required: [true, "Missing blackout start."] },
+            to: { type: Date, required: [true, "Missing blackout end."] },
+            reason: { type: String, maxlength: [200, "Reason too long."] }
+        }
+    ],
+    maxShiftsPerMonth: {
+        type: Number,
+        min: [1, "Maximum shifts per month must be at least 1."],
+        max: [62, "Maximum shifts per month is too high."]
+    }
+}, { timestamps: true }); // Adds createdAt and updatedAt
+
+export const AvailabilityModel = mongoose.model<IAvailability>("Availability", AvailabilitySchema);
@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Secret calendar subscription link of a user (only the hash is stored; one feed per user)
+export interface ICalendarFeed extends Document {
+    userId: mongoose.Types.ObjectId;
+    tokenHash: string;
+    lastAccessedAt?: Date;
+    createdAt?: Date;
+}
+
+const CalendarFeedSchema = new Schema<ICalendarFeed>({
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: [true, "Missing user ID."],
+        unique: true
+    },
+    tokenHash: {
+        type: String,
+        required: [true, "Missing token hash."],
+        unique: true
+    },
+    lastAccessedAt: { type: Date } // Last time a calendar app fetched the feed
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+export const CalendarFeedModel = mongoose.model<ICalendarFeed>("CalendarFeed", CalendarFeedSchema);
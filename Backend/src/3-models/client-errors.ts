@@ -47,3 +47,12 @@ export class ForbiddenError extends ClientError {
         super(StatusCode.Forbidden, message);
     }
 }
+
+// Request clashes with the volunteer's other shifts (details in conflicts):
+export class ScheduleConflictError extends ClientError {
+    public conflicts: object[];
+    public constructor(message: string, conflicts: object[]) {
+        super(StatusCode.Conflict, message);
+        this.conflicts = conflicts;
+    }
+}
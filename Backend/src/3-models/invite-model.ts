@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { UserRole } from "./role";
+
+// Single-use onboarding code issued by an officer (only the hash is stored)
+export interface IInvite extends Document {
+    codeHash: string;
+    role: UserRole;                       // Role the new account gets
+    email?: string;                       // Optional: only this email may use it
+    createdBy: mongoose.Types.ObjectId;
+    expiresAt: Date;
+    usedAt?: Date;
+    usedBy?: mongoose.Types.ObjectId;
+    createdAt?: Date;
+}
+
+const InviteSchema = new Schema<IInvite>({
+    codeHash: {
+        type: String,
+        required: [true, "Missing code hash."],
+        unique: true
+    },
+    role: {
+        type: String,
+        enum: {
+            values: Object.values(UserRole),
+            message: "Role must be either 'volunteer' or 'officer'."
+        },
+        required: [true, "Missing role."]
+    },
+    email: {
+        type: String,
+        lowercase: true,
+        trim: true
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: [true, "Missing creator."]
+    },
+    expiresAt: {
+        type: Date,
+        required: [true, "Missing expiry."]
+    },
+    usedAt: { type: Date },
+    usedBy: { type: Schema.Types.ObjectId, ref: "User" }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+export const InviteModel = mongoose.model<IInvite>("Invite", InviteSchema);
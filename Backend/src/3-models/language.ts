@@ -0,0 +1,4 @@
+export enum Language {
+    Hebrew = "he",
+    English = "en"
+}
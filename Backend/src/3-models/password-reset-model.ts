@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// One-time password reset token (only the hash is stored)
+export interface IPasswordReset extends Document {
+    userId: mongoose.Types.ObjectId;
+    tokenHash: string;
+    expiresAt: Date;
+    usedAt?: Date;
+    createdAt?: Date;
+}
+
+const PasswordResetSchema = new Schema<IPasswordReset>({
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: [true, "Missing user ID."]
+    },
+    tokenHash: {
+        type: String,
+        required: [true, "Missing token hash."],
+        unique: true
+    },
+    expiresAt: {
+        type: Date,
+        required: [true, "Missing expiry."],
+        index: { expires: 0 } // MongoDB TTL: removed once expired
+    },
+    usedAt: { type: Date } // Set when consumed (single use)
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+export const PasswordResetModel = mongoose.model<IPasswordReset>("PasswordReset", PasswordResetSchema);
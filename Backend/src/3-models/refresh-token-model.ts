@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Server-side refresh token (only the hash is stored). Rotated on every use.
+export interface IRefreshToken extends Document {
+    userId: mongoose.Types.ObjectId;
+    tokenHash: string;
+    family: string;        // All rotations of one login share a family
+    expiresAt: Date;
+    revokedAt?: Date;
+    createdAt?: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        required: [true, "Missing user ID."],
+        index: true
+    },
+    tokenHash: {
+        type: String,
+        required: [true, "Missing token hash."],
+        unique: true
+    },
+    family: {
+        type: String,
+        required: [true, "Missing token family."],
+        index: true
+    },
+    expiresAt: {
+        type: Date,
+        required: [true, "Missing expiry."],
+        index: { expires: 0 } // MongoDB TTL: removed once expired
+    },
+    revokedAt: { type: Date }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+export const RefreshTokenModel = mongoose.model<IRefreshToken>("RefreshToken", RefreshTokenSchema);
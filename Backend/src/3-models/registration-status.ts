@@ -0,0 +1,6 @@
+export enum RegistrationStatus {
+    Pending = "pending",     // Waiting for an officer
+    Approved = "approved",
+    Rejected = "rejected",   // Officer declined (kept with the reason)
+    Cancelled = "cancelled"  // Volunteer withdrew
+}
@@ -1,28 +1,97 @@
 import mongoose, { Schema, Document } from "mongoose";
 import { Unit } from "./unit";
-import { ShiftType } from "./shift-type";
+import { ShiftType, ShiftWindow } from "./shift-type";
+import { VolunteerType } from "./volunteer-type";
+import { RegistrationStatus } from "./registration-status";
+
+// Composition rules on top of the headcount (see 2-utils/shift-composition)
+export type ShiftRequirements = {
+    volunteerTypes?: Array<{ volunteerType: VolunteerType; min: number }>; // e.g. at least one שלב ב
+    drivers?: number;       // Volunteers with a driver licence
+    reserveSlots?: boolean; // Hold the last free slots for volunteers who fill a missing requirement
+};
+
+// Lifecycle: open -> published -> locked (reopen -> published); any of them -> cancelled
+export type ShiftStatus = "open" | "published" | "locked" | "cancelled";
+
+// Statuses of a shift that still takes place (see the one-shift-per-day index)
+export const LIVE_STATUSES: ShiftStatus[] = ["open", "published", "locked"];
+
+// Officer actions that move a shift through its lifecycle
+export type ShiftAction = "publish" | "lock" | "reopen" | "cancel";
+
+// What actually happened on a registration
+export type Attendance = {
+    checkedInAt?: Date;
+    checkedOutAt?: Date;
+    recordedBy?: mongoose.Types.ObjectId;  // Last to set the times (the volunteer or an officer)
+    confirmedBy?: mongoose.Types.ObjectId; // Officer who confirmed the times (volunteer can't change them after)
+    confirmedAt?: Date;
+    noShow?: boolean;
+    noShowMarkedBy?: mongoose.Types.ObjectId;
+    noShowMarkedAt?: Date;
+};
 
 // Interface for the Shift document
 export interface IShift extends Document {
     date: Date;
     shiftType: ShiftType;
     unit: Unit;
+    timeWindow?: ShiftWindow; // Overrides the shift type's canonical hours (e.g. special event)
     requiredVolunteers: number;
+    requirements?: ShiftRequirements;
     registeredVolunteers: Array<{
         userId: mongoose.Types.ObjectId;
         volunteerType: string; // שלב א / שלב ב
+        hasDriverLicense?: boolean; // Taken from the profile at registration
         arrivalTime: string;   // "08:00"
         leavingTime: string;   // "14:00"
+        arrivalAt?: Date;      // Real start instant (shift date + type + arrivalTime)
+        leavingAt?: Date;      // Real end instant (may be on the next day for overnight shifts)
         note?: string;
-        approved: boolean;
+        approved: boolean;     // Review state: approved, else pending (rejected records move to closedRegistrations)
         waitlist: boolean;
+        registeredAt?: Date;
+        reviewedBy?: mongoose.Types.ObjectId; // Officer who set the current status
+        reviewedAt?: Date;
+        reviewReason?: string;
+        attendance?: Attendance;
     }>;
     waitlistVolunteers: Array<{
         userId: mongoose.Types.ObjectId;
         volunteerType: string; // שלב א / שלב ב
+        hasDriverLicense?: boolean;
+        arrivalTime?: string;  // Requested times, used on promotion (missing on old entries)
+        leavingTime?: string;
+        arrivalAt?: Date;
+        leavingAt?: Date;
+        note?: string;
         registeredAt: Date;
+        offeredAt?: Date;      // A freed spot was offered to this volunteer...
+        offerExpiresAt?: Date; // ...and is held for them until this deadline
+    }>;
+    closedRegistrations: Array<{ // Rejected or cancelled registrations, kept for history
+        userId: mongoose.Types.ObjectId;
+        volunteerType: string;
+        arrivalTime?: string;
+        leavingTime?: string;
+        note?: string;
+        status: RegistrationStatus.Rejected | RegistrationStatus.Cancelled;
+        registeredAt?: Date;
+        reviewedBy?: mongoose.Types.ObjectId; // Officer who rejected / volunteer who cancelled
+        reviewedAt: Date;
+        reviewReason?: string;
+    }>;
+    status: ShiftStatus;
+    statusHistory: Array<{
+        action: ShiftAction;
+        from: ShiftStatus;
+        to: ShiftStatus;
+        at: Date;
+        source: "officer" | "scheduler"; // Who or what made the change
+        by?: mongoose.Types.ObjectId;    // The officer, for manual changes
+        reason?: string;
     }>;
-    status: "open" | "published" | "locked";
     shiftNote?: string;
     sharedNote?: string;
     createdAt?: Date;
@@ -45,23 +114,48 @@ const ShiftSchema = new Schema<IShift>({
         enum: Object.values(Unit), // Police unit enum
         required: [true, "Missing unit."]
     },
+    timeWindow: { // Optional override of the shift type's window
+        start: { type: String, match: [/^([01]\d|2[0-3]):[0-5]\d$/, "Window start must be HH:MM."] },
+        end: { type: String, match: [/^([01]\d|2[0-3]):[0-5]\d$/, "Window end must be HH:MM."] }
+    },
     requiredVolunteers: {
         type: Number,
         max: [15, "Too many volunteers for one shift!"], // Adjust as needed
         required: [true, "Missing required volunteer count."]
     },
+    requirements: { // Composition rules
+        volunteerTypes: [
+            {
+                _id: false,
+                volunteerType: {
+                    type: String,
+                    enum: Object.values(VolunteerType),
+                    required: [true, "Missing required volunteer type."]
+                },
+                min: {
+                    type: Number,
+                    min: [1, "Minimum must be at least 1."],
+                    required: [true, "Missing minimum for volunteer type."]
+                }
+            }
+        ],
+        drivers: { type: Number, min: [0, "Drivers can't be negative."], default: 0 },
+        reserveSlots: { type: Boolean, default: false }
+    },
     registeredVolunteers: [ // Volunteers assigned to this shift
         {
             userId: {
                 type: Schema.Types.ObjectId,
                 ref: "User",
-                required: [true, "Missing volunteer ID."]
+                required: [true, "Missing volunteer ID."],
+                index: true // "My shifts" and conflict lookups
             },
             volunteerType: {
                 type: String,
                 enum: ["שלב א", "שלב ב"],
                 required: true
             },
+            hasDriverLicense: { type: Boolean }, // Licence at registration time
             arrivalTime: {
                 type: String, // Format "HH:MM"
                 required: [true, "Missing arrival time."]
@@ -70,9 +164,25 @@ const ShiftSchema = new Schema<IShift>({
                 type: String, // Format "HH:MM"
                 required: [true, "Missing leaving time."]
             },
+            arrivalAt: { type: Date }, // Resolved start instant
+            leavingAt: { type: Date }, // Resolved end instant
             note: { type: String }, // Optional note
-            approved: { type: Boolean, default: false }, // Officer approval
-            waitlist: { type: Boolean, default: false }  // Is on waitlist
+            approved: { type: Boolean, default: false }, // Officer approval: the only stored review state (see shiftService statusOf)
+            waitlist: { type: Boolean, default: false }, // Is on waitlist
+            registeredAt: { type: Date, default: Date.now },
+            reviewedBy: { type: Schema.Types.ObjectId, ref: "User" },
+            reviewedAt: { type: Date },
+            reviewReason: { type: String, maxlength: [500, "Reason too long."] },
+            attendance: { // Actual check-in / check-out
+                checkedInAt: { type: Date },
+                checkedOutAt: { type: Date },
+                recordedBy: { type: Schema.Types.ObjectId, ref: "User" },
+                confirmedBy: { type: Schema.Types.ObjectId, ref: "User" },
+                confirmedAt: { type: Date },
+                noShow: { type: Boolean },
+                noShowMarkedBy: { type: Schema.Types.ObjectId, ref: "User" },
+                noShowMarkedAt: { type: Date }
+            }
         }
     ],
     waitlistVolunteers: [ // Volunteers waiting for a spot
@@ -80,23 +190,76 @@ const ShiftSchema = new Schema<IShift>({
             userId: {
                 type: Schema.Types.ObjectId,
                 ref: "User",
-                required: [true, "Missing volunteer ID."]
+                required: [true, "Missing volunteer ID."],
+                index: true
             },
             volunteerType: {
                 type: String,
                 enum: ["שלב א", "שלב ב"],
                 required: true
             },
-            registeredAt: { type: Date, default: Date.now } // Waitlist timestamp
+            hasDriverLicense: { type: Boolean },
+            arrivalTime: { type: String }, // Format "HH:MM"
+            leavingTime: { type: String }, // Format "HH:MM"
+            arrivalAt: { type: Date },
+            leavingAt: { type: Date },
+            note: { type: String },
+            registeredAt: { type: Date, default: Date.now }, // Waitlist timestamp (FIFO order)
+            offeredAt: { type: Date },     // Promotion offer sent
+            offerExpiresAt: { type: Date } // Offer deadline
+        }
+    ],
+    closedRegistrations: [ // Rejected / cancelled registrations (history)
+        {
+            userId: {
+                type: Schema.Types.ObjectId,
+                ref: "User",
+                required: [true, "Missing volunteer ID."]
+            },
+            volunteerType: { type: String, enum: ["שלב א", "שלב ב"] },
+            arrivalTime: { type: String },
+            leavingTime: { type: String },
+            note: { type: String },
+            status: {
+                type: String,
+                enum: [RegistrationStatus.Rejected, RegistrationStatus.Cancelled],
+                required: true
+            },
+            registeredAt: { type: Date },
+            reviewedBy: { type: Schema.Types.ObjectId, ref: "User" },
+            reviewedAt: { type: Date, default: Date.now },
+            reviewReason: { type: String, maxlength: [500, "Reason too long."] }
         }
     ],
     status: {
         type: String,
-        enum: ["open", "published", "locked"], // Shift status
+        enum: ["open", "published", "locked", "cancelled"], // Shift status
         default: "open"
     },
+    statusHistory: [ // Lifecycle transitions, oldest first
+        {
+            _id: false,
+            action: { type: String, enum: ["publish", "lock", "reopen", "cancel"], required: true },
+            from: { type: String, required: true },
+            to: { type: String, required: true },
+            at: { type: Date, default: Date.now },
+            source: { type: String, enum: ["officer", "scheduler"], required: true },
+            by: { type: Schema.Types.ObjectId, ref: "User" },
+            reason: { type: String, maxlength: [500, "Reason too long."] }
+        }
+    ],
     shiftNote: { type: String },    // Officer-only note
     sharedNote: { type: String },   // Note visible to all
-}, { timestamps: true }); // Adds createdAt and updatedAt
+}, {
+    timestamps: true,           // Adds createdAt and updatedAt
+    optimisticConcurrency: true // save() fails on a stale copy (see shiftService saveWithRetry)
+});
+
+// One live shift per day, unit and type (a cancelled day can be planned again).
+// Dates are stored as the day at midnight UTC; existing data is prepared by shiftService.prepareDayIndex.
+ShiftSchema.index(
+    { date: 1, unit: 1, shiftType: 1 },
+    { unique: true, partialFilterExpression: { status: { $in: LIVE_STATUSES } } }
+);
 
 export const ShiftModel = mongoose.model<IShift>("Shift", ShiftSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { Unit } from "./unit";
+import { ShiftType } from "./shift-type";
+import { VolunteerType } from "./volunteer-type";
+import { ShiftRequirements } from "./shift-model";
+
+// Interface for a recurring shift template
+export interface IShiftTemplate extends Document {
+    name: string;
+    unit: Unit;
+    shiftType: ShiftType;
+    weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+    requiredVolunteers: number;
+    requirements?: ShiftRequirements;
+    sharedNote?: string;
+    active: boolean;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+// Mongoose schema for the shift template
+const ShiftTemplateSchema = new Schema<IShiftTemplate>({
+    name: {
+        type: String,
+        required: [true, "Missing template name."],
+        minlength: [2, "Template name too short."],
+        maxlength: [100, "Template name too long."]
+    },
+    unit: {
+        type: String,
+        enum: Object.values(Unit), // Police unit enum
+        required: [true, "Missing unit."]
+    },
+    shiftType: {
+        type: String,
+        enum: Object.values(ShiftType), // Shift type enum
+        required: [true, "Missing shift type."]
+    },
+    weekdays: {
+        type: [{ type: Number, min: [0, "Invalid weekday."], max: [6, "Invalid weekday."] }],
+        validate: {
+            validator: (days: number[]) => days.length > 0,
+            message: "Missing weekdays."
+        }
+    },
+    requiredVolunteers: {
+        type: Number,
+        min: [1, "At least one volunteer is required."],
+        max: [15, "Too many volunteers for one shift!"], // Same limit as ShiftModel
+        required: [true, "Missing required volunteer count."]
+    },
+    requirements: { // Composition rules copied to generated shifts (same shape as ShiftModel)
+        volunteerTypes: [
+            {
+                _id: false,
+                volunteerType: {
+                    type: String,
+                    enum: Object.values(VolunteerType),
+                    required: [true, "Missing required volunteer type."]
+                },
+                min: {
+                    type: Number,
+                    min: [1, "Minimum must be at least 1."],
+                    required: [true, "Missing minimum for volunteer type."]
+                }
+            }
+        ],
+        drivers: { type: Number, min: [0, "Drivers can't be negative."], default: 0 },
+        reserveSlots: { type: Boolean, default: false }
+    },
+    sharedNote: { type: String }, // Default note copied to generated shifts
+    active: { type: Boolean, default: true }
+}, { timestamps: true }); // Adds createdAt and updatedAt
+
+export const ShiftTemplateModel = mongoose.model<IShiftTemplate>("ShiftTemplate", ShiftTemplateSchema);
@@ -1,8 +1,20 @@
 // src/3-models/shift-type.ts
 export enum ShiftType {
-    Boker = "בוקר",        // 06:30–15:00 or שילדי 06:30–19:00
-    Tsohorayim = "צהריים", // 14:30–22:00
-    Laila = "לילה",        // 21:30–07:00 or שילדי 18:30–07:00
+    Boker = "בוקר",
+    Tsohorayim = "צהריים",
+    Laila = "לילה",
     ShildiBoker = "שילדי בוקר",
     ShildiLaila = "שילדי לילה"
 }
+
+// Local time window of a shift ("HH:MM"). end <= start means the window crosses midnight.
+export type ShiftWindow = { start: string; end: string };
+
+// Canonical hours per shift type (a shift may override its own window)
+export const shiftTypeWindows: Record<ShiftType, ShiftWindow> = {
+    [ShiftType.Boker]: { start: "06:30", end: "15:00" },
+    [ShiftType.Tsohorayim]: { start: "14:30", end: "22:00" },
+    [ShiftType.Laila]: { start: "21:30", end: "07:00" },
+    [ShiftType.ShildiBoker]: { start: "06:30", end: "19:00" },
+    [ShiftType.ShildiLaila]: { start: "18:30", end: "07:00" }
+};
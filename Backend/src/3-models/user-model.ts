@@ -2,6 +2,8 @@ import mongoose, { Schema, Document } from "mongoose";
 import { UserRole } from "./role";
 import { Gender } from "./gender";
 import { VolunteerType } from "./volunteer-type";
+import { Language } from "./language";
+import { AccountStatus } from "./account-status";
 
 // User document interface
 export interface IUser extends Document {
@@ -10,9 +12,13 @@ export interface IUser extends Document {
     phone: string;
     password: string; // hashed password
     role: UserRole;
+    status: AccountStatus; // Only active accounts may log in
     serviceNumber: string;
     gender: Gender;
     profileImage?: string;
+    language: Language; // Email language
+    tokenVersion: number; // Bumped to invalidate all issued tokens
+    passwordChangedAt?: Date;
     volunteerData?: {
         volunteerType: VolunteerType;
         hasDriverLicense: boolean;
@@ -63,6 +69,14 @@ const UserSchema = new Schema<IUser>({
         },
         required: [true, "Missing role."]
     },
+    status: {
+        type: String,
+        enum: {
+            values: Object.values(AccountStatus),
+            message: "Status must be 'pending', 'active' or 'deactivated'."
+        },
+        default: AccountStatus.Active // Accounts created before statuses existed are active
+    },
     serviceNumber: {
         type: String,
         required: [true, "Missing service number."],
@@ -81,6 +95,21 @@ const UserSchema = new Schema<IUser>({
     profileImage: {
         type: String // image filename or URL
     },
+    language: {
+        type: String,
+        enum: {
+            values: Object.values(Language),
+            message: "Language must be 'he' or 'en'."
+        },
+        default: Language.Hebrew
+    },
+    tokenVersion: {
+        type: Number,
+        default: 0
+    },
+    passwordChangedAt: {
+        type: Date
+    },
     volunteerData: {
         volunteerType: {
             type: String,
@@ -103,5 +132,10 @@ const UserSchema = new Schema<IUser>({
     { timestamps: true } // Adds createdAt and updatedAt
 );
 
+// A role or status change invalidates every token issued before it
+UserSchema.pre("save", function () {
+    if (!this.isNew && (this.isModified("role") || this.isModified("status"))) this.tokenVersion = (this.tokenVersion ?? 0) + 1;
+});
+
 // Export the user model
 export const UserModel = mongoose.model<IUser>("User", UserSchema);
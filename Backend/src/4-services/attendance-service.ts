@@ -0,0 +1,176 @@
+import mongoose from "mongoose";
+import { IShift, ShiftModel } from "../3-models/shift-model";
+import { lateMinutes, registrationRange, windowRange, workedHours } from "../2-utils/shift-time";
+import { appConfig } from "../2-utils/app-config";
+import { saveWithRetry } from "./shift-service";
+
+/**
+ * AttendanceService - what actually happened on a shift:
+ * - volunteers check in / out themselves (approved registrations, around their planned times)
+ * - officers record or correct the times, which confirms them
+ * - officers mark no-shows once the registration's planned time is over
+ * - per-volunteer history with no-shows and late arrivals
+ */
+
+type RegisteredRec = IShift["registeredVolunteers"][number];
+
+// Main-list record of a volunteer, or throw
+function recordOf(shift: IShift, userId: mongoose.Types.ObjectId): RegisteredRec {
+    const rec = shift.registeredVolunteers.find((r: RegisteredRec) => r.userId.equals(userId));
+    if (!rec) throw new Error("Volunteer not found in main registrations");
+    return rec;
+}
+
+// Planned start/end of a registration (the shift window when times are unknown)
+function plannedRange(shift: IShift, rec: RegisteredRec) {
+    const range = registrationRange(shift, rec);
+    if (range) return range;
+    const { start, end } = windowRange(shift);
+    return { arrivalAt: start, leavingAt: end };
+}
+
+class AttendanceService {
+    /**
+     * Volunteer check-in (now). Allowed from the grace margin before the planned arrival until the planned end.
+     */
+    public async checkIn(shiftId: string, userId: string) {
+        const uid = new mongoose.Types.ObjectId(userId);
+
+        const { shift } = await saveWithRetry(shiftId, shift => {
+            if (shift.status === "cancelled") throw new Error("Shift was cancelled");
+            const rec = recordOf(shift, uid);
+            if (!rec.approved) throw new Error("Registration is not approved");
+            if (rec.attendance?.confirmedBy) throw new Error("Attendance was already confirmed by an officer");
+            if (rec.attendance?.checkedInAt) throw new Error("Already checked in");
+
+            const now = new Date();
+            const { arrivalAt, leavingAt } = plannedRange(shift, rec);
+            if (now.getTime() < arrivalAt.getTime() - appConfig.shiftWindowGraceMinutes * 60 * 1000) throw new Error("Too early to check in");
+            if (now > leavingAt) throw new Error("Shift is over; ask an officer to record your attendance");
+
+            rec.attendance = { checkedInAt: now, recordedBy: uid };
+        });
+        return shift.toObject();
+    }
+
+    /**
+     * Volunteer check-out (now), after checking in. Allowed until the grace margin after the planned end;
+     * later check-outs are left for an officer to record (they would inflate the hours worked).
+     */
+    public async checkOut(shiftId: string, userId: string) {
+        const uid = new mongoose.Types.ObjectId(userId);
+
+        const { shift } = await saveWithRetry(shiftId, shift => {
+            if (shift.status === "cancelled") throw new Error("Shift was cancelled");
+            const rec = recordOf(shift, uid);
+            if (rec.attendance?.confirmedBy) throw new Error("Attendance was already confirmed by an officer");
+            if (!rec.attendance?.checkedInAt) throw new Error("Not checked in");
+            if (rec.attendance.checkedOutAt) throw new Error("Already checked out");
+
+            const now = new Date();
+            const { leavingAt } = plannedRange(shift, rec);
+            if (now.getTime() > leavingAt.getTime() + appConfig.shiftWindowGraceMinutes * 60 * 1000) {
+                throw new Error("Too late to check out; ask an officer to record your attendance");
+            }
+
+            rec.attendance.checkedOutAt = now;
+            rec.attendance.recordedBy = uid;
+        });
+        return shift.toObject();
+    }
+
+    /**
+     * Officer records or corrects a volunteer's times (missing values keep what the volunteer recorded).
+     * This confirms the attendance and clears a no-show mark. Only approved main-list registrations, with times not in the future.
+     */
+    public async confirm(shiftId: string, volunteerId: string, officerId: string, times: { checkedInAt?: Date; checkedOutAt?: Date }) {
+        const vid = new mongoose.Types.ObjectId(volunteerId);
+        const oid = new mongoose.Types.ObjectId(officerId);
+
+        const { shift } = await saveWithRetry(shiftId, shift => {
+            if (shift.status === "cancelled") throw new Error("Shift was cancelled");
+            const rec = recordOf(shift, vid);
+            if (rec.waitlist || !rec.approved) throw new Error("Registration is not approved");
+            const checkedInAt = times.checkedInAt ?? rec.attendance?.checkedInAt;
+            const checkedOutAt = times.checkedOutAt ?? rec.attendance?.checkedOutAt;
+            if (!checkedInAt) throw new Error("checkedInAt is required");
+            if (checkedOutAt && checkedOutAt <= checkedInAt) throw new Error("checkedOutAt must be after checkedInAt");
+
+            const now = new Date();
+            if (checkedInAt > now || (checkedOutAt && checkedOutAt > now)) throw new Error("Attendance times can't be in the future");
+            rec.attendance = {
+                checkedInAt,
+                checkedOutAt,
+                recordedBy: oid,
+                confirmedBy: oid,
+                confirmedAt: now,
+                noShow: false
+            };
+        });
+        return shift.toObject();
+    }
+
+    // Officer marks a volunteer as not having come. Only after the planned end, and not if they checked in.
+    public async markNoShow(shiftId: string, volunteerId: string, officerId: string) {
+        const vid = new mongoose.Types.ObjectId(volunteerId);
+        const oid = new mongoose.Types.ObjectId(officerId);
+
+        const { shift } = await saveWithRetry(shiftId, shift => {
+            if (shift.status === "cancelled") throw new Error("Shift was cancelled");
+            const rec = recordOf(shift, vid);
+            if (new Date() < plannedRange(shift, rec).leavingAt) throw new Error("No-shows can be marked only after the shift ends");
+            if (rec.attendance?.checkedInAt) throw new Error("Volunteer checked in; correct the times instead");
+
+            rec.attendance = { noShow: true, noShowMarkedBy: oid, noShowMarkedAt: new Date() };
+        });
+        return shift.toObject();
+    }
+
+    /**
+     * A volunteer's attendance on past shifts (officer view), most recent first, with totals:
+     * no-shows, late arrivals (appConfig.lateArrivalMinutes) and hours actually worked.
+     */
+    public async historyFor(userId: string, params: { from?: Date; to?: Date }) {
+        const uid = new mongoose.Types.ObjectId(userId);
+        const q: any = { "registeredVolunteers.userId": uid, status: { $ne: "cancelled" }, date: { $lte: params.to ?? new Date() } };
+        if (params.from) q.date.$gte = params.from;
+        const shifts = await ShiftModel.find(q).sort({ date: -1 }).lean<IShift[]>().exec();
+
+        const now = new Date();
+        const entries = [];
+        for (const shift of shifts) {
+            const rec = shift.registeredVolunteers.find(r => r.userId.equals(uid))!;
+            const planned = plannedRange(shift, rec);
+            if (planned.arrivalAt > now) continue;
+
+            const late = lateMinutes(planned.arrivalAt, rec.attendance?.checkedInAt);
+            entries.push({
+                shiftId: shift._id,
+                date: shift.date,
+                unit: shift.unit,
+                shiftType: shift.shiftType,
+                plannedArrivalAt: planned.arrivalAt,
+                plannedLeavingAt: planned.leavingAt,
+                checkedInAt: rec.attendance?.checkedInAt,
+                checkedOutAt: rec.attendance?.checkedOutAt,
+                confirmed: !!rec.attendance?.confirmedBy,
+                noShow: !!rec.attendance?.noShow,
+                lateMinutes: late,
+                late: late > appConfig.lateArrivalMinutes,
+                workedHours: workedHours(rec)
+            });
+        }
+
+        const summary = {
+            shifts: entries.length,
+            attended: entries.filter(e => e.checkedInAt).length,
+            noShows: entries.filter(e => e.noShow).length,
+            lateArrivals: entries.filter(e => e.late).length,
+            unrecorded: entries.filter(e => !e.checkedInAt && !e.noShow).length,
+            workedHours: Math.round(entries.reduce((sum, e) => sum + (e.workedHours ?? 0), 0) * 100) / 100
+        };
+        return { summary, shifts: entries };
+    }
+}
+
+export const attendanceService = new AttendanceService();
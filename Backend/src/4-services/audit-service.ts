@@ -0,0 +1,124 @@
+import mongoose from "mongoose";
+import { ValidationError } from "../3-models/client-errors";
+import { AuditAction, AuditChange, AuditLogModel, AuditSource, AuditTargetType, IAuditLog } from "../3-models/audit-log-model";
+
+/**
+ * AuditService - persistent trail of who changed what:
+ * - shifts: create / update / delete / lifecycle, registrations, waitlist promotions, reviews
+ * - accounts: registration, profile, status, volunteer type, driver licence, password (never the values)
+ * - server errors (5xx) from the error middleware
+ * Recording never fails the calling request: errors are logged and swallowed.
+ */
+
+type Id = string | mongoose.Types.ObjectId;
+
+// Who acted: a user (by id) or a background source
+export type AuditActor = { source: AuditSource; userId?: Id };
+
+export type AuditEntry = {
+    actor: AuditActor;
+    action: AuditAction;
+    targetType: AuditTargetType;
+    targetId?: Id;
+    subjectId?: Id;
+    changes?: AuditChange[];
+    reason?: string;
+    details?: Record<string, any>;
+};
+
+const MAX_PAGE_SIZE = 200;
+
+// Comparable form of a stored value (dates, ObjectIds and subdocuments included)
+function normalize(value: any): string {
+    return JSON.stringify(value ?? null);
+}
+
+class AuditService {
+    // A user as actor
+    public byUser(userId: Id): AuditActor {
+        return { source: "user", userId };
+    }
+
+    // Append one or more entries
+    public async record(entries: AuditEntry | AuditEntry[]): Promise<void> {
+        try {
+            const list = Array.isArray(entries) ? entries : [entries];
+            if (list.length === 0) return;
+            await AuditLogModel.insertMany(list.map(({ actor, ...entry }) => ({
+                ...entry,
+                source: actor.source,
+                actorId: actor.userId
+            })));
+        }
+        catch (err) {
+            console.log("Audit log failed", err);
+        }
+    }
+
+    // The listed fields whose value differs between two versions of a document
+    public diff(before: any, after: any, fields: string[]): AuditChange[] {
+        const changes: AuditChange[] = [];
+        for (const field of fields) {
+            const b = before?.[field], a = after?.[field];
+            if (normalize(b) !== normalize(a)) changes.push({ field, before: b, after: a });
+        }
+        return changes;
+    }
+
+    /**
+     * Officer query, newest first, with pagination.
+     * - actorId / subjectId / targetId: exact ids; action: exact or a prefix ending in "." (e.g. "registration.")
+     * - from / to: entry time
+     */
+    public async query(params: {
+        actorId?: string;
+        action?: string;
+        targetType?: AuditTargetType;
+        targetId?: string;
+        subjectId?: string;
+        source?: AuditSource;
+        from?: Date;
+        to?: Date;
+        page?: number;
+        pageSize?: number;
+    }) {
+        const { actorId, action, targetType, targetId, subjectId, source, from, to } = params || {};
+        const page = Math.max(1, Math.floor(params.page || 1));
+        const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(params.pageSize || 50)));
+
+        for (const [name, id] of Object.entries({ actorId, targetId, subjectId })) {
+            if (id && !mongoose.isValidObjectId(id)) throw new ValidationError(`Invalid ${name}.`);
+        }
+        if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) throw new ValidationError("Invalid date range.");
+
+        const filter: any = {};
+        if (actorId) filter.actorId = actorId;
+        if (targetType) filter.targetType = targetType;
+        if (targetId) filter.targetId = targetId;
+        if (subjectId) filter.subjectId = subjectId;
+        if (source) filter.source = source;
+        if (action) {
+            filter.action = action.endsWith(".")
+                ? { $regex: "^" + action.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") }
+                : action;
+        }
+        if (from || to) filter.createdAt = {};
+        if (from) filter.createdAt.$gte = from;
+        if (to) filter.createdAt.$lte = to;
+
+        const [items, total] = await Promise.all([
+            AuditLogModel.find(filter)
+                .sort({ createdAt: -1, _id: -1 })
+                .skip((page - 1) * pageSize)
+                .limit(pageSize)
+                .populate("actorId", "fullName serviceNumber role")
+                .populate("subjectId", "fullName serviceNumber")
+                .lean<IAuditLog[]>()
+                .exec(),
+            AuditLogModel.countDocuments(filter).exec()
+        ]);
+        return { items, total, page, pageSize };
+    }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,44 @@
+import mongoose from "mongoose";
+import { IUser, UserModel } from "../3-models/user-model";
+import { AuthUser } from "../3-models/auth-user";
+import { TtlCache } from "../2-utils/ttl-cache";
+import { appConfig } from "../2-utils/app-config";
+import { AccountStatus } from "../3-models/account-status";
+
+/**
+ * AuthUserService - resolves the current user for each request.
+ * Tokens only carry the user id, so role/status/token version come from the database,
+ * cached briefly to avoid a query per request. Writers call invalidate() after changing them.
+ */
+class AuthUserService {
+    private cache = new TtlCache<AuthUser>(appConfig.authUserCacheSeconds * 1000);
+
+    // Current auth data for a user id (null if the account no longer exists)
+    public async get(userId: string): Promise<AuthUser | null> {
+        const cached = this.cache.get(userId);
+        if (cached) return cached;
+
+        if (!mongoose.isValidObjectId(userId)) return null;
+        const user = await UserModel.findById(userId)
+            .select("role status tokenVersion")
+            .lean<Pick<IUser, "role" | "status" | "tokenVersion">>()
+            .exec();
+        if (!user) return null;
+
+        const authUser: AuthUser = {
+            _id: userId,
+            role: user.role,
+            status: user.status ?? AccountStatus.Active,
+            tokenVersion: user.tokenVersion ?? 0
+        };
+        this.cache.set(userId, authUser);
+        return authUser;
+    }
+
+    // Forget cached data after role/status/token version changes or deletion
+    public invalidate(userId: string | mongoose.Types.ObjectId): void {
+        this.cache.delete(String(userId));
+    }
+}
+
+export const authUserService = new AuthUserService();
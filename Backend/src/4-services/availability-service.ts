@@ -0,0 +1,218 @@
+import mongoose from "mongoose";
+import { AvailabilityModel, IAvailability } from "../3-models/availability-model";
+import { IShift, ShiftModel } from "../3-models/shift-model";
+import { IUser, UserModel } from "../3-models/user-model";
+import { UserRole } from "../3-models/role";
+import { AccountStatus } from "../3-models/account-status";
+import { RegistrationStatus } from "../3-models/registration-status";
+import { ShiftType } from "../3-models/shift-type";
+import { Unit } from "../3-models/unit";
+import { ValidationError } from "../3-models/client-errors";
+import { startOfDay, windowRange } from "../2-utils/shift-time";
+import { CompositionMember, mayTakeSlot, slotsNeeded, unmetRequirements } from "../2-utils/shift-composition";
+import { conflictService } from "./conflict-service";
+import { slotHolders } from "./shift-service";
+import { auditService } from "./audit-service";
+
+/**
+ * AvailabilityService - volunteers' declared availability and preferences:
+ * - recurring weekday x shift type slots, preferred units, blackout dates, a monthly shift limit
+ * - candidate search (officer): who could still fill a shift, best fits first
+ * Declarations guide officers only; registration itself doesn't check them.
+ */
+
+const MAX_BLACKOUTS = 100;
+const MAX_CANDIDATES = 200;
+
+// Declared availability as sent by the volunteer (the whole declaration is replaced)
+export type AvailabilityInput = {
+    weekly?: Array<{ weekday: number; shiftType: ShiftType }>;
+    preferredUnits?: Unit[];
+    blackoutDates?: Array<{ from: string | Date; to: string | Date; reason?: string }>;
+    maxShiftsPerMonth?: number | null;
+};
+
+// A volunteer who could fill a shift, with what the ranking was based on
+export type Candidate = {
+    userId: mongoose.Types.ObjectId;
+    fullName: string;
+    phone: string;
+    serviceNumber: string;
+    profileImage?: string;
+    volunteerType: string;
+    hasDriverLicense: boolean;
+    fillsRequirement: boolean;     // Would complete a missing stage / driver
+    availabilityDeclared: boolean; // false: never declared, so not known to be available
+    preferredUnit: boolean;
+    shiftsThisMonth: number;       // Main-list registrations in the shift's month
+    maxShiftsPerMonth?: number;
+};
+
+// Share of the monthly limit already used (plain count when there is no limit)
+function loadOf(c: Candidate): number {
+    return c.maxShiftsPerMonth ? c.shiftsThisMonth / c.maxShiftsPerMonth : c.shiftsThisMonth;
+}
+
+// Best fit first: fills a requirement, declared the slot, prefers the unit, lightest load, then by name
+function byFit(a: Candidate, b: Candidate): number {
+    return Number(b.fillsRequirement) - Number(a.fillsRequirement)
+        || Number(b.availabilityDeclared) - Number(a.availabilityDeclared)
+        || Number(b.preferredUnit) - Number(a.preferredUnit)
+        || loadOf(a) - loadOf(b)
+        || a.fullName.localeCompare(b.fullName, "he");
+}
+
+class AvailabilityService {
+    // The volunteer's declaration (empty when never declared)
+    public async getFor(userId: string) {
+        const availability = await AvailabilityModel.findOne({ userId }).lean<IAvailability | null>().exec();
+        return availability ?? { userId, weekly: [], preferredUnits: [], blackoutDates: [] };
+    }
+
+    // Validate and replace the volunteer's declaration
+    public async update(userId: string, input: AvailabilityInput) {
+        const weekly = input.weekly ?? [];
+        const units = input.preferredUnits ?? [];
+        const blackouts = input.blackoutDates ?? [];
+        const max = input.maxShiftsPerMonth ?? undefined;
+
+        if (!Array.isArray(weekly) || !Array.isArray(units) || !Array.isArray(blackouts)) {
+            throw new ValidationError("weekly, preferredUnits and blackoutDates must be arrays.");
+        }
+        const preferredUnits = [...new Set(units)];
+        for (const slot of weekly) {
+            if (!Number.isInteger(slot?.weekday) || slot.weekday < 0 || slot.weekday > 6) throw new ValidationError("weekday must be 0 (Sunday) to 6 (Saturday).");
+            if (!Object.values(ShiftType).includes(slot.shiftType)) throw new ValidationError("Unknown shift type.");
+        }
+        if (preferredUnits.some(unit => !Object.values(Unit).includes(unit))) throw new ValidationError("Unknown unit.");
+        if (blackouts.length > MAX_BLACKOUTS) throw new ValidationError(`At most ${MAX_BLACKOUTS} blackout periods.`);
+        if (max !== undefined && !(Number.isInteger(max) && max >= 1 && max <= 62)) {
+            throw new ValidationError("maxShiftsPerMonth must be a whole number between 1 and 62.");
+        }
+
+        const blackoutDates = blackouts.map(b => {
+            const from = new Date(b?.from), to = new Date(b?.to);
+            if (isNaN(from.getTime()) || isNaN(to.getTime())) throw new ValidationError("Invalid blackout date.");
+            if (from > to) throw new ValidationError("Blackout 'from' must be before 'to'.");
+            return { from: startOfDay(from), to: startOfDay(to), reason: b.reason ? String(b.reason).trim() : undefined };
+        }).sort((a, b) => a.from.getTime() - b.from.getTime());
+
+        // One entry per weekday + shift type
+        const slots = new Map(weekly.map(s => [`${s.weekday}|${s.shiftType}`, { weekday: s.weekday, shiftType: s.shiftType }]));
+
+        const before = await AvailabilityModel.findOne({ userId }).lean<IAvailability | null>().exec();
+        const update: any = { weekly: [...slots.values()], preferredUnits, blackoutDates };
+        if (max === undefined) update.$unset = { maxShiftsPerMonth: 1 };
+        else update.maxShiftsPerMonth = max;
+
+        const saved = await AvailabilityModel.findOneAndUpdate({ userId }, update, { upsert: true, new: true, runValidators: true })
+            .lean<IAvailability>()
+            .exec();
+
+        const changes = auditService.diff(before, saved, ["weekly", "preferredUnits", "blackoutDates", "maxShiftsPerMonth"]);
+        if (changes.length > 0) {
+            void auditService.record({ actor: auditService.byUser(userId), action: "user.update", targetType: "user", targetId: userId, changes });
+        }
+        return saved;
+    }
+
+    /**
+     * Volunteers who could still fill a shift (officer), best fits first.
+     * Left out: anyone already on the shift (or rejected from it), inactive accounts, blacked-out days,
+     * volunteers at their monthly limit, schedule clashes, a declared availability without this weekday + shift type,
+     * and volunteers who couldn't take a slot held for a missing stage / driver.
+     * Volunteers who never declared availability are listed after those who did.
+     */
+    public async candidatesFor(shiftId: string, params: { limit?: number } = {}) {
+        const shift = await ShiftModel.findById(shiftId).lean<IShift | null>().exec();
+        if (!shift) return null;
+        if (shift.status === "cancelled") throw new ValidationError("Shift was cancelled.");
+        const limit = Math.min(Math.max(Math.floor(params.limit || 50), 1), MAX_CANDIDATES);
+
+        // Already on the shift, or rejected from it (they can't register again)
+        const excluded = [
+            ...shift.registeredVolunteers.map(r => r.userId),
+            ...shift.waitlistVolunteers.map(w => w.userId),
+            ...shift.closedRegistrations.filter(c => c.status === RegistrationStatus.Rejected).map(c => c.userId)
+        ];
+
+        const volunteers = await UserModel.find({
+            _id: { $nin: excluded },
+            role: UserRole.Volunteer,
+            status: { $in: [AccountStatus.Active, null] } // Legacy accounts are active
+        })
+            .select("fullName phone serviceNumber profileImage volunteerData")
+            .lean<Pick<IUser, "_id" | "fullName" | "phone" | "serviceNumber" | "profileImage" | "volunteerData">[]>()
+            .exec();
+        const ids = volunteers.map(v => v._id);
+
+        // Shift dates are calendar days at midnight UTC
+        const day = startOfDay(new Date(shift.date));
+        const monthStart = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+        const monthEnd = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 1));
+        const window = windowRange(shift);
+
+        const [availabilities, monthly, clashing] = await Promise.all([
+            AvailabilityModel.find({ userId: { $in: ids } }).lean<IAvailability[]>().exec(),
+            ShiftModel.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+                { $match: { date: { $gte: monthStart, $lt: monthEnd }, status: { $ne: "cancelled" }, "registeredVolunteers.userId": { $in: ids } } },
+                { $unwind: "$registeredVolunteers" },
+                { $match: { "registeredVolunteers.userId": { $in: ids } } },
+                { $group: { _id: "$registeredVolunteers.userId", count: { $sum: 1 } } }
+            ]).exec(),
+            conflictService.clashingUsers(shiftId, { arrivalAt: window.start, leavingAt: window.end })
+        ]);
+        const availabilityOf = new Map(availabilities.map(a => [String(a.userId), a]));
+        const countOf = new Map(monthly.map(m => [String(m._id), m.count]));
+
+        const holders = slotHolders(shift);
+        const free = shift.requiredVolunteers - holders.length;
+        const needed = slotsNeeded(shift.requirements, holders);
+
+        const candidates: Candidate[] = [];
+        for (const v of volunteers) {
+            const key = String(v._id);
+            const availability = availabilityOf.get(key);
+            const shiftsThisMonth = countOf.get(key) ?? 0;
+            const max = availability?.maxShiftsPerMonth;
+
+            if (clashing.has(key)) continue;
+            if (max && shiftsThisMonth >= max) continue;
+            if (availability?.blackoutDates.some(b => b.from <= day && day <= b.to)) continue;
+
+            const declared = !!availability && availability.weekly.length > 0;
+            if (declared && !availability!.weekly.some(s => s.weekday === day.getUTCDay() && s.shiftType === shift.shiftType)) continue;
+
+            if (!v.volunteerData?.volunteerType) continue;
+            const member: CompositionMember = { volunteerType: v.volunteerData.volunteerType, hasDriverLicense: !!v.volunteerData.hasDriverLicense };
+            // A full shift still takes waitlist entries: qualify as if one slot were free
+            if (!mayTakeSlot(shift.requirements, holders, member, Math.max(free, 1))) continue;
+
+            candidates.push({
+                userId: v._id as mongoose.Types.ObjectId,
+                fullName: v.fullName,
+                phone: v.phone,
+                serviceNumber: v.serviceNumber,
+                profileImage: v.profileImage,
+                volunteerType: member.volunteerType,
+                hasDriverLicense: !!member.hasDriverLicense,
+                fillsRequirement: slotsNeeded(shift.requirements, [...holders, member]) < needed,
+                availabilityDeclared: declared,
+                preferredUnit: !!availability?.preferredUnits.includes(shift.unit),
+                shiftsThisMonth,
+                maxShiftsPerMonth: max
+            });
+        }
+
+        candidates.sort(byFit);
+        return {
+            shiftId: shift._id,
+            free: Math.max(free, 0),
+            unmet: unmetRequirements(shift.requirements, holders),
+            total: candidates.length,
+            candidates: candidates.slice(0, limit)
+        };
+    }
+}
+
+export const availabilityService = new AvailabilityService();
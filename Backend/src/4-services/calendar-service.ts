@@ -0,0 +1,88 @@
+import mongoose from "mongoose";
+import { CalendarFeedModel } from "../3-models/calendar-feed-model";
+import { IShift, ShiftModel } from "../3-models/shift-model";
+import { IUser, UserModel } from "../3-models/user-model";
+import { AccountStatus } from "../3-models/account-status";
+import { Language } from "../3-models/language";
+import { CalendarEvent, toICalendar } from "../2-utils/ical";
+import { DAY_MS, registrationRange, windowRange } from "../2-utils/shift-time";
+import { cyber } from "../2-utils/cyber";
+
+/**
+ * CalendarService - per-user iCalendar subscription feed:
+ * - a secret, revocable link (only its hash is stored; creating a new one replaces the old)
+ * - one event per shift the user registered for: approved = confirmed, pending = tentative
+ * - cancelled shifts and withdrawn / rejected registrations stay in the feed as cancelled events,
+ *   and the shift's version is the event SEQUENCE, so subscribed calendars pick up every change
+ */
+
+const FEED_PAST_DAYS = 60; // Older shifts drop out of the feed
+
+// A lean shift with its version key
+type VersionedShift = IShift & { __v?: number };
+
+class CalendarService {
+    // Create (or replace) the user's feed link. Returns the secret token, shown once.
+    public async createFeed(userId: string): Promise<string> {
+        const token = cyber.generateRandomToken();
+        await CalendarFeedModel.findOneAndUpdate(
+            { userId },
+            { tokenHash: cyber.hashToken(token), $unset: { lastAccessedAt: 1 } },
+            { upsert: true }
+        ).exec();
+        return token;
+    }
+
+    // Disable the user's feed link. Returns false if there was none.
+    public async revokeFeed(userId: string): Promise<boolean> {
+        const result = await CalendarFeedModel.deleteOne({ userId }).exec();
+        return result.deletedCount > 0;
+    }
+
+    // The .ics content for a feed token (null for unknown links or inactive accounts)
+    public async feedFor(token: string): Promise<string | null> {
+        const feed = await CalendarFeedModel.findOneAndUpdate({ tokenHash: cyber.hashToken(token) }, { lastAccessedAt: new Date() }).exec();
+        if (!feed) return null;
+
+        const user = await UserModel.findById(feed.userId).select("fullName language status").lean<Pick<IUser, "fullName" | "language" | "status"> | null>().exec();
+        if (!user || (user.status ?? AccountStatus.Active) !== AccountStatus.Active) return null;
+
+        const uid = feed.userId;
+        const shifts = await ShiftModel.find({
+            date: { $gte: new Date(Date.now() - FEED_PAST_DAYS * DAY_MS) },
+            $or: [{ "registeredVolunteers.userId": uid }, { "closedRegistrations.userId": uid }]
+        }).sort({ date: 1 }).lean<VersionedShift[]>().exec();
+
+        const events = shifts.map(shift => this.eventOf(shift, uid));
+        const name = user.language === Language.English ? `Shifts - ${user.fullName}` : `משמרות - ${user.fullName}`;
+        return toICalendar(name, events);
+    }
+
+    // The user's registration on a shift as a calendar event
+    private eventOf(shift: VersionedShift, uid: mongoose.Types.ObjectId): CalendarEvent {
+        const rec = shift.registeredVolunteers.find(r => r.userId.equals(uid));
+        // A re-registration after cancelling reuses the same event
+        const closed = rec ? undefined : (shift.closedRegistrations ?? []).filter(c => c.userId.equals(uid)).pop();
+
+        const times = rec ?? (closed?.arrivalTime && closed.leavingTime ? { arrivalTime: closed.arrivalTime, leavingTime: closed.leavingTime } : undefined);
+        const range = times ? registrationRange(shift, times) : null;
+        const window = windowRange(shift);
+
+        let status: CalendarEvent["status"] = "CANCELLED";
+        if (rec && shift.status !== "cancelled") status = rec.approved ? "CONFIRMED" : "TENTATIVE";
+
+        return {
+            uid: `${shift._id}.${uid}@police-volunteers`,
+            sequence: shift.__v ?? 0, // Bumped by every save / update of the shift
+            start: range?.arrivalAt ?? window.start,
+            end: range?.leavingAt ?? window.end,
+            summary: `${shift.shiftType} · ${shift.unit}`,
+            location: shift.unit,
+            description: shift.sharedNote,
+            status,
+            lastModified: shift.updatedAt
+        };
+    }
+}
+
+export const calendarService = new CalendarService();
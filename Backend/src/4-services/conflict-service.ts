@@ -0,0 +1,161 @@
+import mongoose, { FilterQuery } from "mongoose";
+import { ShiftModel, IShift } from "../3-models/shift-model";
+import { IUser, UserModel } from "../3-models/user-model";
+import { DAY_MS, hoursBetween, registrationRange, resolveDateRange } from "../2-utils/shift-time";
+import { appConfig } from "../2-utils/app-config";
+
+/**
+ * ConflictService - schedule clashes between a volunteer's shifts:
+ * - overlap: two registrations share time
+ * - rest: the gap between two registrations is shorter than appConfig.minRestHours
+ * Only main-list registrations count (waitlist entries are checked when an offer is accepted); cancelled shifts are ignored.
+ */
+
+type Range = { arrivalAt: Date; leavingAt: Date };
+
+// One registration taking part in a conflict
+export type ConflictSide = {
+    shiftId: mongoose.Types.ObjectId;
+    date: Date;
+    unit: IShift["unit"];
+    shiftType: IShift["shiftType"];
+    arrivalAt: Date;
+    leavingAt: Date;
+};
+
+export type Conflict = {
+    type: "overlap" | "rest";
+    shift: ConflictSide;
+    gapHours: number; // 0 for overlaps
+};
+
+// Classify two ranges: overlap, too little rest, or fine (null)
+function classify(a: Range, b: Range): { type: Conflict["type"]; gapHours: number } | null {
+    if (a.arrivalAt < b.leavingAt && b.arrivalAt < a.leavingAt) return { type: "overlap", gapHours: 0 };
+    const gapHours = a.leavingAt <= b.arrivalAt ? hoursBetween(a.leavingAt, b.arrivalAt) : hoursBetween(b.leavingAt, a.arrivalAt);
+    if (gapHours < appConfig.minRestHours) return { type: "rest", gapHours };
+    return null;
+}
+
+function sideOf(shift: IShift, range: Range): ConflictSide {
+    return {
+        shiftId: shift._id as mongoose.Types.ObjectId,
+        date: shift.date,
+        unit: shift.unit,
+        shiftType: shift.shiftType,
+        arrivalAt: range.arrivalAt,
+        leavingAt: range.leavingAt
+    };
+}
+
+class ConflictService {
+    // Conflicts between a requested range and the volunteer's other registrations
+    public async findForRegistration(userId: string, shiftId: string, range: Range): Promise<Conflict[]> {
+        const uid = new mongoose.Types.ObjectId(userId);
+
+        // Nearby shifts only: a conflict needs to be within a day + rest gap
+        const shifts = await ShiftModel.find({
+            _id: { $ne: shiftId },
+            status: { $ne: "cancelled" },
+            "registeredVolunteers.userId": uid,
+            date: { $gte: new Date(range.arrivalAt.getTime() - 2 * DAY_MS), $lte: new Date(range.leavingAt.getTime() + DAY_MS) }
+        }).lean<IShift[]>().exec();
+
+        const conflicts: Conflict[] = [];
+        for (const shift of shifts) {
+            const rec = shift.registeredVolunteers.find(r => r.userId.equals(uid));
+            const other = rec && registrationRange(shift, rec);
+            if (!other) continue;
+            const found = classify(range, other);
+            if (found) conflicts.push({ ...found, shift: sideOf(shift, other) });
+        }
+        return conflicts;
+    }
+
+    // Volunteers whose main-list registrations clash with a range (candidate search for a shift, which is itself ignored)
+    public async clashingUsers(shiftId: string, range: Range): Promise<Set<string>> {
+        const shifts = await ShiftModel.find({
+            _id: { $ne: shiftId },
+            status: { $ne: "cancelled" },
+            date: { $gte: new Date(range.arrivalAt.getTime() - 2 * DAY_MS), $lte: new Date(range.leavingAt.getTime() + DAY_MS) }
+        }).select("date shiftType timeWindow registeredVolunteers").lean<IShift[]>().exec();
+
+        const users = new Set<string>();
+        for (const shift of shifts) {
+            for (const rec of shift.registeredVolunteers) {
+                const other = registrationRange(shift, rec);
+                if (other && classify(range, other)) users.add(String(rec.userId));
+            }
+        }
+        return users;
+    }
+
+    /**
+     * All current conflicts in a date range (officer view), one entry per clashing pair.
+     * Pairs whose other shift falls just outside the range are still found. The range is limited to MAX_RANGE_DAYS.
+     */
+    public async listAll(params: { from: Date; to: Date; unit?: IShift["unit"] }) {
+        const { unit } = params;
+        const { from, to } = resolveDateRange(params.from, params.to);
+
+        // Volunteers with a registration in the requested range (and unit)
+        const q: FilterQuery<IShift> = { date: { $gte: from, $lte: to }, status: { $ne: "cancelled" } };
+        if (unit) q.unit = unit;
+        const userIds = await ShiftModel.distinct("registeredVolunteers.userId", q).exec() as mongoose.Types.ObjectId[];
+        if (userIds.length === 0) return [];
+
+        // All of their registrations around the range, any unit
+        const shifts = await ShiftModel.find({
+            "registeredVolunteers.userId": { $in: userIds },
+            status: { $ne: "cancelled" },
+            date: { $gte: new Date(from.getTime() - DAY_MS), $lte: new Date(to.getTime() + DAY_MS) }
+        }).lean<IShift[]>().exec();
+
+        // Registrations per volunteer
+        const byUser = new Map<string, Array<{ shift: IShift; range: Range }>>();
+        const wanted = new Set(userIds.map(id => String(id)));
+        for (const shift of shifts) {
+            for (const rec of shift.registeredVolunteers) {
+                const key = String(rec.userId);
+                if (!wanted.has(key)) continue;
+                const range = registrationRange(shift, rec);
+                if (!range) continue;
+                if (!byUser.has(key)) byUser.set(key, []);
+                byUser.get(key)!.push({ shift, range });
+            }
+        }
+
+        const users = await UserModel.find({ _id: { $in: [...byUser.keys()] } })
+            .select("fullName serviceNumber phone")
+            .lean<Pick<IUser, "_id" | "fullName" | "serviceNumber" | "phone">[]>()
+            .exec();
+        const userById = new Map(users.map(u => [String(u._id), u]));
+
+        const inScope = (shift: IShift) => shift.date >= from && shift.date <= to && (!unit || shift.unit === unit);
+
+        const result = [];
+        for (const [userId, regs] of byUser) {
+            regs.sort((a, b) => a.range.arrivalAt.getTime() - b.range.arrivalAt.getTime());
+            for (let i = 0; i < regs.length; i++) {
+                for (let j = i + 1; j < regs.length; j++) {
+                    // Sorted by start: once the rest gap is respected, later ones are too
+                    if (regs[j].range.arrivalAt.getTime() - regs[i].range.leavingAt.getTime() >= appConfig.minRestHours * 60 * 60 * 1000) break;
+                    if (!inScope(regs[i].shift) && !inScope(regs[j].shift)) continue;
+                    const found = classify(regs[i].range, regs[j].range);
+                    if (!found) continue;
+                    result.push({
+                        userId,
+                        user: userById.get(userId) ?? null,
+                        type: found.type,
+                        gapHours: found.gapHours,
+                        first: sideOf(regs[i].shift, regs[i].range),
+                        second: sideOf(regs[j].shift, regs[j].range)
+                    });
+                }
+            }
+        }
+        return result;
+    }
+}
+
+export const conflictService = new ConflictService();
@@ -0,0 +1,98 @@
+import mongoose from "mongoose";
+import { IInvite, InviteModel } from "../3-models/invite-model";
+import { UserModel } from "../3-models/user-model";
+import { UserRole } from "../3-models/role";
+import { ValidationError } from "../3-models/client-errors";
+import { cyber } from "../2-utils/cyber";
+import { appConfig } from "../2-utils/app-config";
+
+/**
+ * InviteService - onboarding codes issued by officers:
+ * - create/list/revoke invites
+ * - redeem a code during registration (single use, expiring, optionally bound to an email)
+ */
+class InviteService {
+    // Create an invite and return the plain code (shown once; only its hash is stored)
+    public async create(params: { role: UserRole; createdBy: string; email?: string; expiresInDays?: number }) {
+        const { role, createdBy, email } = params;
+        const days = params.expiresInDays ?? appConfig.inviteExpiresDays;
+
+        const code = cyber.generateShortCode();
+        const invite = await new InviteModel({
+            codeHash: cyber.hashToken(code),
+            role,
+            email,
+            createdBy,
+            expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+        }).save();
+
+        return { code, _id: invite._id, role: invite.role, email: invite.email, expiresAt: invite.expiresAt };
+    }
+
+    // List invites (without hashes), newest first
+    public list(params: { includeUsed?: boolean }) {
+        const q: any = {};
+        if (!params?.includeUsed) q.usedAt = { $exists: false };
+        return InviteModel.find(q).select("-codeHash").sort({ createdAt: -1 }).lean<IInvite[]>().exec();
+    }
+
+    // Delete an unused invite
+    public revoke(id: string) {
+        return InviteModel.findOneAndDelete({ _id: id, usedAt: { $exists: false } }).lean<IInvite | null>().exec();
+    }
+
+    /**
+     * Redeem a code for a new account (atomic: a code works once).
+     * The env bootstrap code yields an officer invite while no officer exists yet. It is claimed atomically
+     * (a marker invite per bootstrap code), so it makes one officer even under concurrent registrations.
+     * Returns the role the account gets.
+     */
+    public async redeem(code: string, email: string, userId: mongoose.Types.ObjectId): Promise<{ role: UserRole; release: () => Promise<void> }> {
+        const normalized = String(code).trim().toUpperCase();
+
+        const bootstrapCode = appConfig.officerBootstrapCode;
+        if (bootstrapCode && cyber.safeEqual(String(code).trim(), bootstrapCode)) {
+            const officerExists = await UserModel.exists({ role: UserRole.Officer }).exec();
+            if (officerExists) throw new ValidationError("Invalid or expired invite code.");
+
+            // Only one upsert can create the marker; a used marker makes the next one hit the unique code hash
+            const marker = await InviteModel.findOneAndUpdate(
+                { codeHash: cyber.hashToken("bootstrap:" + bootstrapCode), usedAt: { $exists: false } },
+                {
+                    $set: { usedAt: new Date(), usedBy: userId },
+                    $setOnInsert: { role: UserRole.Officer, createdBy: userId, expiresAt: new Date() }
+                },
+                { upsert: true, new: true }
+            ).exec().catch(err => {
+                if (err?.code === 11000) return null;
+                throw err;
+            });
+            if (!marker) throw new ValidationError("Invalid or expired invite code.");
+
+            const release = async () => {
+                await InviteModel.deleteOne({ _id: marker._id }).exec();
+            };
+            return { role: UserRole.Officer, release };
+        }
+
+        const invite = await InviteModel.findOneAndUpdate(
+            {
+                codeHash: cyber.hashToken(normalized),
+                usedAt: { $exists: false },
+                expiresAt: { $gt: new Date() },
+                $or: [{ email: { $exists: false } }, { email: null }, { email: String(email).trim().toLowerCase() }]
+            },
+            { usedAt: new Date(), usedBy: userId },
+            { new: true }
+        ).exec();
+        if (!invite) throw new ValidationError("Invalid or expired invite code.");
+
+        // Lets the caller give the code back if creating the account fails
+        const release = async () => {
+            await InviteModel.updateOne({ _id: invite._id }, { $unset: { usedAt: 1, usedBy: 1 } }).exec();
+        };
+        return { role: invite.role, release };
+    }
+}
+
+export const inviteService = new InviteService();
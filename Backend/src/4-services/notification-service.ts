@@ -0,0 +1,90 @@
+import mongoose from "mongoose";
+import { IShift } from "../3-models/shift-model";
+import { IUser, UserModel } from "../3-models/user-model";
+import { Language } from "../3-models/language";
+import { RegistrationStatus } from "../3-models/registration-status";
+import { mailer } from "../2-utils/mailer";
+import { EmailEvent, renderEmail } from "../2-utils/email-templates";
+import { shiftWindow } from "../2-utils/shift-time";
+
+/**
+ * NotificationService - emails volunteers about shift events:
+ * - registration received (main list / waitlist)
+ * - registration reviewed (approved / rejected / back to pending), waitlist promotion offers (and their expiry)
+ * - shift changed or cancelled
+ * - account emails (password reset)
+ * Sending never fails the calling request: errors are logged and swallowed.
+ */
+
+type UserId = string | mongoose.Types.ObjectId;
+type ShiftLike = Pick<IShift, "date" | "unit" | "shiftType" | "timeWindow">;
+
+class NotificationService {
+    public registrationReceived(shift: ShiftLike, userId: UserId, waitlisted: boolean) {
+        return this.notify({ kind: "registrationReceived", waitlisted }, shift, [userId]);
+    }
+
+    public registrationReviewed(shift: ShiftLike, userId: UserId, status: RegistrationStatus, reason?: string) {
+        return this.notify({ kind: "registrationReviewed", status, reason }, shift, [userId]);
+    }
+
+    public waitlistOffer(shift: ShiftLike, userId: UserId, expiresAt: Date) {
+        return this.notify({ kind: "waitlistOffer", expiresAt }, shift, [userId]);
+    }
+
+    public offerExpired(shift: ShiftLike, userId: UserId) {
+        return this.notify({ kind: "offerExpired" }, shift, [userId]);
+    }
+
+    public shiftChanged(shift: ShiftLike, userIds: UserId[], changes: string[] = []) {
+        return this.notify({ kind: "shiftChanged", changes }, shift, userIds);
+    }
+
+    public shiftCancelled(shift: ShiftLike, userIds: UserId[], reason?: string) {
+        return this.notify({ kind: "shiftCancelled", reason }, shift, userIds);
+    }
+
+    public passwordReset(userId: UserId, resetUrl: string, expiresInMinutes: number) {
+        return this.notify({ kind: "passwordReset", resetUrl, expiresInMinutes }, null, [userId]);
+    }
+
+    // Everyone attached to a shift (main list + waitlist)
+    public participantsOf(shift: Pick<IShift, "registeredVolunteers" | "waitlistVolunteers">): mongoose.Types.ObjectId[] {
+        return [
+            ...shift.registeredVolunteers.map(r => r.userId),
+            ...shift.waitlistVolunteers.map(w => w.userId)
+        ];
+    }
+
+    // Render and send one email per recipient in their language
+    private async notify(event: EmailEvent, shift: ShiftLike | null, userIds: UserId[]): Promise<void> {
+        try {
+            if (userIds.length === 0) return;
+            const users = await UserModel.find({ _id: { $in: userIds } })
+                .select("fullName email language")
+                .lean<Pick<IUser, "fullName" | "email" | "language">[]>()
+                .exec();
+
+            const summary = shift ? {
+                date: shift.date,
+                unit: shift.unit,
+                shiftType: shift.shiftType,
+                window: shiftWindow(shift)
+            } : undefined;
+
+            await Promise.all(users.map(user => {
+                const content = renderEmail(event, {
+                    fullName: user.fullName,
+                    language: user.language || Language.Hebrew,
+                    shift: summary
+                });
+                return mailer.send({ to: user.email, ...content });
+            }));
+        }
+        catch (err) {
+            console.log("Notification failed:", err);
+        }
+    }
+}
+
+export const notificationService = new NotificationService();
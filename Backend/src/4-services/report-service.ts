@@ -0,0 +1,182 @@
+import ExcelJS from "exceljs";
+import { IShift, ShiftModel } from "../3-models/shift-model";
+import { IUser, UserModel } from "../3-models/user-model";
+import { Unit } from "../3-models/unit";
+import { registrationRange, hoursBetween, workedHours } from "../2-utils/shift-time";
+import { CsvColumn, toCsv } from "../2-utils/csv";
+
+/**
+ * ReportService - volunteer hours for a period (district reporting):
+ * - planned basis: approved registrations, their planned arrival to leaving
+ * - actual basis: recorded attendance (check-in to check-out), whatever the approval state
+ * Grouped per volunteer, unit, shift type and volunteer type (stage at the time of the shift).
+ * Cancelled shifts are not counted.
+ */
+
+export type HoursBasis = "planned" | "actual";
+export type HoursGroup = "volunteer" | "unit" | "shiftType" | "volunteerType";
+
+type Line = { userId: string; unit: string; shiftType: string; volunteerType: string; hours: number };
+type Bucket = { key: string; registrations: number; volunteers: Set<string>; hours: number };
+
+export type HoursReport = {
+    from: Date;
+    to: Date;
+    unit?: Unit;
+    basis: HoursBasis;
+    totals: { registrations: number; volunteers: number; hours: number };
+    byVolunteer: Array<{ userId: string; fullName: string; serviceNumber: string; volunteerType?: string; registrations: number; hours: number }>;
+    byUnit: Array<{ unit: string; registrations: number; volunteers: number; hours: number }>;
+    byShiftType: Array<{ shiftType: string; registrations: number; volunteers: number; hours: number }>;
+    byVolunteerType: Array<{ volunteerType: string; registrations: number; volunteers: number; hours: number }>;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Sum lines per key
+function group(lines: Line[], keyOf: (line: Line) => string): Bucket[] {
+    const buckets = new Map<string, Bucket>();
+    for (const line of lines) {
+        const key = keyOf(line);
+        if (!buckets.has(key)) buckets.set(key, { key, registrations: 0, volunteers: new Set(), hours: 0 });
+        const b = buckets.get(key)!;
+        b.registrations++;
+        b.volunteers.add(line.userId);
+        b.hours += line.hours;
+    }
+    return [...buckets.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// Column sets shared by CSV and Excel output
+const columns: { [G in HoursGroup]: CsvColumn<any>[] } = {
+    volunteer: [
+        { header: "Service number", value: r => r.serviceNumber },
+        { header: "Full name", value: r => r.fullName },
+        { header: "Volunteer type", value: r => r.volunteerType },
+        { header: "Registrations", value: r => r.registrations },
+        { header: "Hours", value: r => r.hours }
+    ],
+    unit: [
+        { header: "Unit", value: r => r.unit },
+        { header: "Registrations", value: r => r.registrations },
+        { header: "Volunteers", value: r => r.volunteers },
+        { header: "Hours", value: r => r.hours }
+    ],
+    shiftType: [
+        { header: "Shift type", value: r => r.shiftType },
+        { header: "Registrations", value: r => r.registrations },
+        { header: "Volunteers", value: r => r.volunteers },
+        { header: "Hours", value: r => r.hours }
+    ],
+    volunteerType: [
+        { header: "Volunteer type", value: r => r.volunteerType },
+        { header: "Registrations", value: r => r.registrations },
+        { header: "Volunteers", value: r => r.volunteers },
+        { header: "Hours", value: r => r.hours }
+    ]
+};
+
+// Report rows for one grouping
+function rowsOf(report: HoursReport, groupBy: HoursGroup): object[] {
+    switch (groupBy) {
+        case "volunteer": return report.byVolunteer;
+        case "unit": return report.byUnit;
+        case "shiftType": return report.byShiftType;
+        case "volunteerType": return report.byVolunteerType;
+    }
+}
+
+class ReportService {
+    // Hours in [from, to] (shift dates), optionally for one unit
+    public async hours(params: { from: Date; to: Date; unit?: Unit; basis: HoursBasis }): Promise<HoursReport> {
+        const { from, to, unit, basis } = params;
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) throw new Error("Invalid date range");
+
+        const q: any = { date: { $gte: from, $lte: to }, status: { $ne: "cancelled" } };
+        if (unit) q.unit = unit;
+        const shifts = await ShiftModel.find(q).lean<IShift[]>().exec();
+
+        const lines: Line[] = [];
+        for (const shift of shifts) {
+            for (const rec of shift.registeredVolunteers) {
+                let hours: number | null = null;
+                if (basis === "actual") hours = workedHours(rec);
+                else if (rec.approved) {
+                    const range = registrationRange(shift, rec);
+                    hours = range ? hoursBetween(range.arrivalAt, range.leavingAt) : null;
+                }
+                if (!hours) continue;
+                lines.push({ userId: String(rec.userId), unit: shift.unit, shiftType: shift.shiftType, volunteerType: rec.volunteerType, hours });
+            }
+        }
+
+        const byUser = group(lines, l => l.userId);
+        const users = await UserModel.find({ _id: { $in: byUser.map(b => b.key) } })
+            .select("fullName serviceNumber volunteerData")
+            .lean<Pick<IUser, "_id" | "fullName" | "serviceNumber" | "volunteerData">[]>()
+            .exec();
+        const userById = new Map(users.map(u => [String(u._id), u]));
+
+        const summarize = (b: Bucket) => ({ registrations: b.registrations, volunteers: b.volunteers.size, hours: round(b.hours) });
+        return {
+            from,
+            to,
+            unit,
+            basis,
+            totals: {
+                registrations: lines.length,
+                volunteers: byUser.length,
+                hours: round(lines.reduce((sum, l) => sum + l.hours, 0))
+            },
+            byVolunteer: byUser
+                .map(b => {
+                    const user = userById.get(b.key);
+                    return {
+                        userId: b.key,
+                        fullName: user?.fullName ?? "",
+                        serviceNumber: user?.serviceNumber ?? "",
+                        volunteerType: user?.volunteerData?.volunteerType,
+                        registrations: b.registrations,
+                        hours: round(b.hours)
+                    };
+                })
+                .sort((a, b) => a.fullName.localeCompare(b.fullName, "he")),
+            byUnit: group(lines, l => l.unit).map(b => ({ unit: b.key, ...summarize(b) })),
+            byShiftType: group(lines, l => l.shiftType).map(b => ({ shiftType: b.key, ...summarize(b) })),
+            byVolunteerType: group(lines, l => l.volunteerType).map(b => ({ volunteerType: b.key, ...summarize(b) }))
+        };
+    }
+
+    // One grouping as CSV
+    public toCsv(report: HoursReport, groupBy: HoursGroup): string {
+        return toCsv(columns[groupBy], rowsOf(report, groupBy));
+    }
+
+    // Excel workbook: a summary sheet plus one sheet per grouping
+    public async toXlsx(report: HoursReport): Promise<Buffer> {
+        const workbook = new ExcelJS.Workbook();
+
+        const summary = workbook.addWorksheet("Summary");
+        summary.addRows([
+            ["From", report.from.toISOString().slice(0, 10)],
+            ["To", report.to.toISOString().slice(0, 10)],
+            ["Unit", report.unit ?? "All"],
+            ["Basis", report.basis],
+            ["Registrations", report.totals.registrations],
+            ["Volunteers", report.totals.volunteers],
+            ["Hours", report.totals.hours]
+        ]);
+
+        const sheets: Array<[HoursGroup, string]> = [["volunteer", "Volunteers"], ["unit", "Units"], ["shiftType", "Shift types"], ["volunteerType", "Volunteer types"]];
+        for (const [groupBy, name] of sheets) {
+            const sheet = workbook.addWorksheet(name);
+            sheet.addRow(columns[groupBy].map(c => c.header)).font = { bold: true };
+            for (const row of rowsOf(report, groupBy)) sheet.addRow(columns[groupBy].map(c => c.value(row) ?? ""));
+            sheet.columns.forEach(col => col.width = 18);
+        }
+
+        return Buffer.from(await workbook.xlsx.writeBuffer());
+    }
+}
+
+export const reportService = new ReportService();
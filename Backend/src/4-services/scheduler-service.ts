@@ -0,0 +1,40 @@
+import { shiftService } from "./shift-service";
+
+/**
+ * SchedulerService - periodic background jobs:
+ * - pass unanswered waitlist offers to the next in line
+ * - lock shifts shortly before they start
+ * A run is skipped while the previous one is still going; job errors are logged, never thrown.
+ */
+
+const INTERVAL_MS = 60 * 1000;
+
+class SchedulerService {
+    private timer?: NodeJS.Timeout;
+    private running = false;
+
+    public start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => void this.tick(), INTERVAL_MS);
+    }
+
+    public stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    // Run every job once
+    private async tick(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        try {
+            await shiftService.processExpiredOffers().catch(err => console.log("Offer sweep failed:", err));
+            await shiftService.autoLock().catch(err => console.log("Auto-lock failed:", err));
+        }
+        finally {
+            this.running = false;
+        }
+    }
+}
+
+export const schedulerService = new SchedulerService();
@@ -1,32 +1,221 @@
 import mongoose from "mongoose";
-import { ShiftModel, IShift } from "../3-models/shift-model";
+import { ShiftModel, IShift, LIVE_STATUSES, ShiftAction, ShiftStatus } from "../3-models/shift-model";
+import { DAY_MS, MAX_RANGE_DAYS, startOfDay, hoursBetween, registrationRange, resolveRange, shiftWindow, windowRange, workedHours } from "../2-utils/shift-time";
+import { appConfig } from "../2-utils/app-config";
+import { ShiftType, shiftTypeWindows } from "../3-models/shift-type";
+import { notificationService } from "./notification-service";
+import { conflictService } from "./conflict-service";
+import { ScheduleConflictError } from "../3-models/client-errors";
+import { IUser, UserModel } from "../3-models/user-model";
+import { CompositionMember, mayTakeSlot, unmetRequirements } from "../2-utils/shift-composition";
+import { RegistrationStatus } from "../3-models/registration-status";
+import { AuditActor, AuditEntry, auditService } from "./audit-service";
 
 /**
  * ShiftService - business logic for shifts:
  * - list/get/create/update/delete
- * - volunteer actions: register, unregister
- * - officer actions: approve, status indicator
+ * - lifecycle: publish / lock / reopen / cancel (volunteers are told), and the scheduled auto-lock
+ * - volunteer actions: register, unregister, own registration state
+ * - officer actions: review (approve / reject), status indicator
+ * - every change is recorded in the audit log (who, what, before / after)
  * Comments are concise and focused on intent.
  */
 
 // Convenience types for nested arrays
 type RegisteredRec = IShift["registeredVolunteers"][number];
 type WaitlistRec = IShift["waitlistVolunteers"][number];
+type ClosedRec = IShift["closedRegistrations"][number];
+
+// Officer decisions on a main-list registration
+export type ReviewStatus = RegistrationStatus.Approved | RegistrationStatus.Pending | RegistrationStatus.Rejected;
+
+// What a volunteer sees about their own registration
+export type RegistrationView = {
+    status: RegistrationStatus | "waitlisted" | "none";
+    reason?: string;
+    reviewedAt?: Date;
+    arrivalTime?: string;
+    leavingTime?: string;
+    waitlistPosition?: number;
+    offerExpiresAt?: Date;
+    checkedInAt?: Date;
+    checkedOutAt?: Date;
+};
+
+// Review state of a main-list record, derived from the approved flag (the only stored review state)
+function statusOf(rec: RegisteredRec): RegistrationStatus {
+    return rec.approved ? RegistrationStatus.Approved : RegistrationStatus.Pending;
+}
+
+// Move a main-list record to the history with its closing status
+function closeRegistration(shift: IShift, rec: RegisteredRec, status: ClosedRec["status"], by: mongoose.Types.ObjectId, reason?: string) {
+    shift.registeredVolunteers = shift.registeredVolunteers.filter((r: RegisteredRec) => !r.userId.equals(rec.userId));
+    shift.closedRegistrations.push({
+        userId: rec.userId,
+        volunteerType: rec.volunteerType,
+        arrivalTime: rec.arrivalTime,
+        leavingTime: rec.leavingTime,
+        note: rec.note,
+        status,
+        registeredAt: rec.registeredAt,
+        reviewedBy: by,
+        reviewedAt: new Date(),
+        reviewReason: reason
+    } as ClosedRec);
+}
+
+// Order main-list records by real arrival instant (records without times go last)
+function byArrival(shift: Pick<IShift, "date" | "shiftType" | "timeWindow">) {
+    return (a: RegisteredRec, b: RegisteredRec) => {
+        const ra = registrationRange(shift, a);
+        const rb = registrationRange(shift, b);
+        return (ra ? ra.arrivalAt.getTime() : Infinity) - (rb ? rb.arrivalAt.getTime() : Infinity);
+    };
+}
+
+// Resolve requested times to instants and check them against the shift window (with grace)
+function resolveRegistrationTimes(shift: Pick<IShift, "date" | "shiftType" | "timeWindow">, arrivalTime: string, leavingTime: string) {
+    // Throws on bad format or leaving before arrival
+    const range = resolveRange(shift, arrivalTime, leavingTime);
+
+    const graceMs = appConfig.shiftWindowGraceMinutes * 60 * 1000;
+    const window = windowRange(shift);
+    if (range.arrivalAt.getTime() < window.start.getTime() - graceMs || range.leavingAt.getTime() > window.end.getTime() + graceMs) {
+        const { start, end } = shiftWindow(shift);
+        throw new Error(`arrivalTime/leavingTime must be within the shift window ${start}–${end}`);
+    }
+    return range;
+}
+
+/**
+ * Re-resolve the stored arrival/leaving instants after the shift's date, type or window changed.
+ * The requested "HH:MM" times are kept; times that no longer resolve drop their instants.
+ */
+function retime(shift: IShift) {
+    for (const rec of [...shift.registeredVolunteers, ...shift.waitlistVolunteers] as Array<RegisteredRec | WaitlistRec>) {
+        if (!rec.arrivalTime || !rec.leavingTime) continue;
+        try {
+            const { arrivalAt, leavingAt } = resolveRange(shift, rec.arrivalTime, rec.leavingTime);
+            rec.arrivalAt = arrivalAt;
+            rec.leavingAt = leavingAt;
+        }
+        catch {
+            rec.arrivalAt = undefined;
+            rec.leavingAt = undefined;
+        }
+    }
+    shift.registeredVolunteers.sort(byArrival(shift));
+}
+
+// Waitlist entries holding an unexpired offer (their spot is reserved)
+function activeOffers(shift: Pick<IShift, "waitlistVolunteers">, now = new Date()): WaitlistRec[] {
+    return shift.waitlistVolunteers.filter((w: WaitlistRec) => w.offerExpiresAt && w.offerExpiresAt > now);
+}
+
+// Qualifications holding a slot: the main list plus open offers
+export function slotHolders(shift: Pick<IShift, "registeredVolunteers" | "waitlistVolunteers">, now = new Date()): CompositionMember[] {
+    return [...shift.registeredVolunteers.filter((r: RegisteredRec) => !r.waitlist), ...activeOffers(shift, now)];
+}
+
+// Allowed lifecycle transitions per action
+const transitions: Record<ShiftAction, { from: ShiftStatus[]; to: ShiftStatus }> = {
+    publish: { from: ["open"], to: "published" },
+    lock: { from: ["open", "published"], to: "locked" },
+    reopen: { from: ["locked"], to: "published" },
+    cancel: { from: ["open", "published", "locked"], to: "cancelled" }
+};
+
+// Shift fields an officer sets directly on create / update (also compared for the audit log).
+// Rosters, status and history only change through the registration / lifecycle actions.
+const EDITABLE_FIELDS = ["date", "shiftType", "unit", "timeWindow", "requiredVolunteers", "requirements", "shiftNote", "sharedNote"];
+
+// Throw on any field outside the editable set (plus status, which the caller checks)
+function assertEditable(data: object) {
+    const rejected = Object.keys(data).filter(key => key !== "status" && !EDITABLE_FIELDS.includes(key));
+    if (rejected.length > 0) throw new Error(`These fields can't be set directly: ${rejected.join(", ")}`);
+}
+
+const MAX_SAVE_ATTEMPTS = 10;
+const RETRY_BASE_MS = 20; // Backoff before retry n is random in [0, min(RETRY_BASE_MS * 2^(n-1), RETRY_MAX_MS))
+const RETRY_MAX_MS = 500;
+
+// Calendar day (midnight UTC) of a shift date as sent by the client
+function shiftDay(value: unknown): Date {
+    const date = new Date(value as string | Date);
+    if (isNaN(date.getTime())) throw new Error("Invalid date");
+    return startOfDay(date);
+}
+
+// A clash with the one-shift-per-day/unit/type index, as a readable error
+function readableSaveError(err: any) {
+    return err?.code === 11000 ? new Error("There is already a shift for this unit and type on that day") : err;
+}
+
+/**
+ * Load a shift, apply a change and save it with optimistic concurrency (schema versioning).
+ * If another request saved the shift in between, reload and re-apply the change, so capacity
+ * and "already registered" checks always run against the latest state.
+ * Retries wait a random, growing delay so requests that collided don't collide again in lockstep.
+ */
+export async function saveWithRetry<T>(shiftId: string | mongoose.Types.ObjectId, change: (shift: IShift) => T): Promise<{ shift: IShift; result: T }> {
+    for (let attempt = 1; ; attempt++) {
+        const shift = await ShiftModel.findById(shiftId).exec();
+        if (!shift) throw new Error("Shift not found");
+
+        const result = change(shift);
+        try {
+            await shift.save();
+            return { shift, result };
+        }
+        catch (err) {
+            if (!(err instanceof mongoose.Error.VersionError)) throw readableSaveError(err);
+            if (attempt >= MAX_SAVE_ATTEMPTS) throw new Error("Shift is busy, please try again");
+        }
+        await new Promise(resolve => setTimeout(resolve, Math.random() * Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS)));
+    }
+}
+
+// Human-readable list of changes volunteers care about
+function describeChanges(before: IShift, after: IShift): string[] {
+    const changes: string[] = [];
+    if (new Date(before.date).getTime() !== new Date(after.date).getTime()) changes.push(`date: ${new Date(after.date).toISOString().slice(0, 10)}`);
+    if (before.shiftType !== after.shiftType) changes.push(`shift type: ${after.shiftType}`);
+    if (before.unit !== after.unit) changes.push(`unit: ${after.unit}`);
+    const wb = shiftWindow(before), wa = shiftWindow(after);
+    if (wb.start !== wa.start || wb.end !== wa.end) changes.push(`hours: ${wa.start}–${wa.end}`);
+    if (before.status !== after.status) changes.push(`status: ${after.status}`);
+    if ((before.sharedNote || "") !== (after.sharedNote || "")) changes.push(`note: ${after.sharedNote || "-"}`);
+    return changes;
+}
+
+// Audit entries for waitlist promotion offers (made automatically when a spot frees up)
+function offerEntries(shiftId: string | mongoose.Types.ObjectId, offered: WaitlistRec[], source: "system" | "scheduler"): AuditEntry[] {
+    return offered.map(w => ({
+        actor: { source },
+        action: "registration.offer",
+        targetType: "shift",
+        targetId: shiftId,
+        subjectId: w.userId,
+        details: { expiresAt: w.offerExpiresAt }
+    }));
+}
 
 class ShiftService {
-    // List with optional date range and filters
+    // List with optional date range and filters. Cancelled shifts are left out unless asked for (officers).
     public listByRange(params: {
         unit?: IShift["unit"];
         shiftType?: IShift["shiftType"];
         from?: Date;
         to?: Date;
         status?: IShift["status"];
+        includeCancelled?: boolean;
     }) {
-        const { unit, shiftType, from, to, status } = params || {};
+        const { unit, shiftType, from, to, status, includeCancelled } = params || {};
         const q: any = {};
         if (unit) q.unit = unit;
         if (shiftType) q.shiftType = shiftType;
-        if (status) q.status = status;
+        if (status && (status !== "cancelled" || includeCancelled)) q.status = status;
+        else if (!includeCancelled) q.status = { $ne: "cancelled" };
         if (from || to) q.date = {};
         if (from) q.date.$gte = from;
         if (to) q.date.$lte = to;
@@ -35,142 +224,684 @@ class ShiftService {
         return ShiftModel.find(q).sort({ date: 1 }).lean<IShift[]>().exec();
     }
 
+    /**
+     * A volunteer's own schedule: shifts where they are on the main list or the waitlist (cancelled shifts left out).
+     * - upcoming: not yet over, soonest first
+     * - past: already over, most recent first
+     */
+    public async listForUser(userId: string, params: { when: "upcoming" | "past"; limit?: number }) {
+        const uid = new mongoose.Types.ObjectId(userId);
+        const now = new Date();
+        const limit = Math.min(Math.max(params.limit ?? 100, 1), 500);
+
+        // Shift dates are calendar days: an overnight shift from yesterday may still be running
+        const q: any = {
+            $or: [{ "registeredVolunteers.userId": uid }, { "waitlistVolunteers.userId": uid }],
+            status: { $ne: "cancelled" },
+            date: params.when === "upcoming" ? { $gte: new Date(now.getTime() - 2 * DAY_MS) } : { $lte: now }
+        };
+        let query = ShiftModel.find(q).sort({ date: params.when === "upcoming" ? 1 : -1 });
+        if (params.when === "past") query = query.limit(limit + 5); // A few of today's shifts may still be upcoming
+        const shifts = await query
+            .lean<IShift[]>()
+            .exec();
+
+        const entries = [];
+        for (const shift of shifts) {
+            const rec = shift.registeredVolunteers.find((r: RegisteredRec) => r.userId.equals(uid));
+            const range = rec ? registrationRange(shift, rec) : null;
+            const end = range ? range.leavingAt : windowRange(shift).end;
+            if ((end > now) !== (params.when === "upcoming")) continue;
+
+            entries.push({
+                shiftId: shift._id,
+                date: shift.date,
+                unit: shift.unit,
+                shiftType: shift.shiftType,
+                window: shiftWindow(shift),
+                status: shift.status,
+                sharedNote: shift.sharedNote,
+                registration: this.registrationOf(shift, uid),
+                arrivalAt: range?.arrivalAt,
+                leavingAt: range?.leavingAt
+            });
+            if (entries.length >= limit) break;
+        }
+        return entries;
+    }
+
+    // Canonical window per shift type (exposed to clients)
+    public listShiftTypes() {
+        return Object.values(ShiftType).map(type => ({ type, ...shiftTypeWindows[type] }));
+    }
+
     // Get single shift
     public getOne(id: string) {
         return ShiftModel.findById(id).lean<IShift | null>().exec();
     }
 
-    // Create a shift document
-    public create(data: Partial<IShift>) {
-        return new ShiftModel(data).save();
+    // Create a shift document (as a draft or already published)
+    public async create(data: Partial<IShift>, officerId: string) {
+        if (data.status && !["open", "published"].includes(data.status)) throw new Error("A new shift must be open or published");
+        assertEditable(data);
+        if (data.date !== undefined) data = { ...data, date: shiftDay(data.date) };
+        const saved = await new ShiftModel(data).save().catch(err => { throw readableSaveError(err); });
+
+        void auditService.record({
+            actor: auditService.byUser(officerId),
+            action: "shift.create",
+            targetType: "shift",
+            targetId: saved._id as mongoose.Types.ObjectId,
+            changes: auditService.diff({}, saved.toObject(), [...EDITABLE_FIELDS, "status"])
+        });
+        return saved;
     }
 
-    // Update and return the updated doc (or null)
-    public update(id: string, data: Partial<IShift>) {
-        return ShiftModel.findByIdAndUpdate(id, data, { new: true }).lean<IShift | null>().exec();
+    /**
+     * Delete a shift that nobody ever registered or waitlisted for (e.g. created by mistake).
+     * Returns "deleted", "not-found" or "has-registrations" (cancel those instead, to keep their history).
+     */
+    public async remove(id: string, officerId: string): Promise<"deleted" | "not-found" | "has-registrations"> {
+        const deleted = await ShiftModel.findOneAndDelete({
+            _id: id,
+            "registeredVolunteers.0": { $exists: false },
+            "waitlistVolunteers.0": { $exists: false },
+            "closedRegistrations.0": { $exists: false }
+        }).lean<IShift | null>().exec();
+        if (deleted) {
+            void auditService.record({
+                actor: auditService.byUser(officerId),
+                action: "shift.delete",
+                targetType: "shift",
+                targetId: id,
+                changes: auditService.diff(deleted, {}, [...EDITABLE_FIELDS, "status"])
+            });
+            return "deleted";
+        }
+        return (await ShiftModel.exists({ _id: id }).exec()) ? "has-registrations" : "not-found";
+    }
+
+    /**
+     * Update and return the updated doc (or null).
+     * Registration times follow a moved shift; added capacity is offered to the waitlist. Participants are emailed about visible changes.
+     */
+    public async update(id: string, data: Partial<IShift>, officerId: string) {
+        assertEditable(data);
+        if (!(await ShiftModel.exists({ _id: id }).exec())) return null;
+        const { status, ...changes } = data;
+        if (changes.date !== undefined) changes.date = shiftDay(changes.date);
+
+        // Saved as a document so the schema validators run (window times, requirements, capacity)
+        const { shift, result: { before, offered } } = await saveWithRetry(id, shift => {
+            // Status only changes through the lifecycle actions
+            if (status !== undefined && status !== shift.status) {
+                throw new Error("Use publish / lock / reopen / cancel to change a shift's status");
+            }
+            const before = shift.toObject();
+            shift.set(changes);
+            if (shift.isModified("date") || shift.isModified("shiftType") || shift.isModified("timeWindow")) retime(shift);
+            shift.increment(); // Bump the version so in-flight registrations re-check against the new values
+
+            // Added capacity goes to the waitlist first (FIFO), not to whoever registers next
+            const offered = shift.requiredVolunteers > before.requiredVolunteers ? this.offerFreeSpots(shift) : [];
+            return { before, offered };
+        });
+        const updated = shift.toObject();
+        offered.forEach(w => void notificationService.waitlistOffer(updated, w.userId, w.offerExpiresAt!));
+        void auditService.record(offerEntries(id, offered, "system"));
+
+        const fieldChanges = auditService.diff(before, updated, EDITABLE_FIELDS);
+        if (fieldChanges.length > 0) {
+            void auditService.record({ actor: auditService.byUser(officerId), action: "shift.update", targetType: "shift", targetId: id, changes: fieldChanges });
+        }
+
+        const visible = describeChanges(before, updated);
+        if (visible.length > 0) {
+            void notificationService.shiftChanged(updated, notificationService.participantsOf(updated), visible);
+        }
+        return updated;
     }
 
     /**
      * Register a volunteer.
+     * - Volunteer type and driver licence come from the profile (volunteers can't claim them per shift).
+     * - arrival/leaving are resolved to real instants (overnight shifts end on the next day).
+     * - The range must fit the shift's window, +/- the configured grace margin.
      * - If main list is full, user goes to waitlist.
+     * - With reserveSlots on, the last free slots are kept for volunteers who fill a missing requirement.
+     * - Concurrent registrations are serialized by saveWithRetry (capacity can't be overbooked).
      */
     public async register(params: {
         shiftId: string;
         userId: string;
-        volunteerType: RegisteredRec["volunteerType"];
         arrivalTime: RegisteredRec["arrivalTime"];
         leavingTime: RegisteredRec["leavingTime"];
         note?: RegisteredRec["note"];
     }) {
-        const { shiftId, userId, volunteerType, arrivalTime, leavingTime, note } = params;
+        const { shiftId, userId, arrivalTime, leavingTime, note } = params;
+        const uid = new mongoose.Types.ObjectId(userId);
 
-        const shift = await ShiftModel.findById(shiftId).exec();
-        if (!shift) throw new Error("Shift not found");
+        await this.assertNoScheduleConflicts(shiftId, userId, () => ({ arrivalTime, leavingTime }));
 
-        if (shift.status === "locked") throw new Error("Shift is locked");
-        if (!["open", "published"].includes(shift.status)) {
-            throw new Error("Shift not open for registration");
-        }
+        const profile = await UserModel.findById(uid).select("volunteerData").lean<Pick<IUser, "volunteerData"> | null>().exec();
+        const volunteerType = profile?.volunteerData?.volunteerType;
+        if (!volunteerType) throw new Error("Your profile has no volunteer type");
+        const hasDriverLicense = !!profile?.volunteerData?.hasDriverLicense;
+
+        const { shift, result: waitlisted } = await saveWithRetry(shiftId, shift => {
+            if (shift.status === "locked") throw new Error("Shift is locked");
+            if (!["open", "published"].includes(shift.status)) {
+                throw new Error("Shift not open for registration");
+            }
+
+            const { arrivalAt, leavingAt } = resolveRegistrationTimes(shift, arrivalTime, leavingTime);
+
+            const alreadyInMain = shift.registeredVolunteers.some((r: RegisteredRec) => r.userId.equals(uid));
+            const alreadyInWait = shift.waitlistVolunteers.some((w: WaitlistRec) => w.userId.equals(uid));
+            if (alreadyInMain || alreadyInWait) throw new Error("Already registered (or waitlisted)");
+            // A rejection stands; a volunteer who cancelled may register again
+            if (shift.closedRegistrations.some((c: ClosedRec) => c.userId.equals(uid) && c.status === RegistrationStatus.Rejected)) {
+                throw new Error("Your registration for this shift was rejected");
+            }
+
+            // Spots offered to waitlisted volunteers are taken until the offer is answered or expires
+            const holders = slotHolders(shift);
+            const free = shift.requiredVolunteers - holders.length;
+            const waitlisted = !mayTakeSlot(shift.requirements, holders, { volunteerType, hasDriverLicense }, free);
+
+            if (!waitlisted) {
+                // Add to main list
+                shift.registeredVolunteers.push({
+                    userId: uid,
+                    volunteerType,
+                    hasDriverLicense,
+                    arrivalTime,
+                    leavingTime,
+                    arrivalAt,
+                    leavingAt,
+                    note,
+                    approved: false,
+                    waitlist: false,
+                    registeredAt: new Date()
+                } as RegisteredRec);
+                shift.registeredVolunteers.sort(byArrival(shift));
+            } else {
+                // Add to waitlist (FIFO), keeping the requested details for promotion
+                shift.waitlistVolunteers.push({
+                    userId: uid,
+                    volunteerType,
+                    hasDriverLicense,
+                    arrivalTime,
+                    leavingTime,
+                    arrivalAt,
+                    leavingAt,
+                    note,
+                    registeredAt: new Date()
+                } as WaitlistRec);
+            }
+            return waitlisted;
+        });
+
+        void notificationService.registrationReceived(shift, uid, waitlisted);
+        void auditService.record({
+            actor: auditService.byUser(userId),
+            action: "registration.register",
+            targetType: "shift",
+            targetId: shiftId,
+            subjectId: uid,
+            details: { waitlisted, volunteerType, arrivalTime, leavingTime }
+        });
+        return shift.toObject();
+    }
+
+    /**
+     * Unregister a volunteer (main list or waitlist).
+     * - A main-list registration is kept in the history as cancelled.
+     * - A freed main-list spot is offered to the first waitlisted volunteer (FIFO) with a deadline.
+     */
+    public async unregister(shiftId: string, userId: string) {
+        const uid = new mongoose.Types.ObjectId(userId);
+
+        const { shift, result } = await saveWithRetry(shiftId, shift => {
+            if (shift.status === "cancelled") throw new Error("Shift was cancelled");
+
+            const rec = shift.registeredVolunteers.find((r: RegisteredRec) => r.userId.equals(uid));
+            const inWait = shift.waitlistVolunteers.some((w: WaitlistRec) => w.userId.equals(uid));
+            if (!rec && !inWait) throw new Error("User was not registered or waitlisted");
+
+            const from = rec ? statusOf(rec) : "waitlisted";
+            if (rec) closeRegistration(shift, rec, RegistrationStatus.Cancelled, uid);
+            shift.waitlistVolunteers = shift.waitlistVolunteers.filter((w: WaitlistRec) => !w.userId.equals(uid));
+
+            // Leaving the main list, or dropping a held offer, frees a spot
+            return { from, offered: this.offerFreeSpots(shift) };
+        });
+
+        result.offered.forEach(w => void notificationService.waitlistOffer(shift, w.userId, w.offerExpiresAt!));
+        void auditService.record([
+            {
+                actor: auditService.byUser(userId),
+                action: "registration.unregister",
+                targetType: "shift",
+                targetId: shiftId,
+                subjectId: uid,
+                changes: [{ field: "status", before: result.from, after: RegistrationStatus.Cancelled }]
+            },
+            ...offerEntries(shiftId, result.offered, "system")
+        ]);
+        return shift.toObject();
+    }
 
+    /**
+     * Accept a promotion offer: move from the waitlist to the main list with the stored times.
+     * Entries saved before times were kept must send arrivalTime/leavingTime.
+     */
+    public async acceptOffer(shiftId: string, userId: string, times?: { arrivalTime?: string; leavingTime?: string; note?: string }) {
         const uid = new mongoose.Types.ObjectId(userId);
-        const alreadyInMain = shift.registeredVolunteers.some((r: RegisteredRec) => r.userId.equals(uid));
-        const alreadyInWait = shift.waitlistVolunteers.some((w: WaitlistRec) => w.userId.equals(uid));
-        if (alreadyInMain || alreadyInWait) throw new Error("Already registered (or waitlisted)");
 
-        const mainCount = shift.registeredVolunteers.filter((r: RegisteredRec) => !r.waitlist).length;
+        await this.assertNoScheduleConflicts(shiftId, userId, shift => {
+            const entry = shift.waitlistVolunteers.find((w: WaitlistRec) => w.userId.equals(uid));
+            return { arrivalTime: times?.arrivalTime || entry?.arrivalTime, leavingTime: times?.leavingTime || entry?.leavingTime };
+        });
+
+        const { shift } = await saveWithRetry(shiftId, shift => {
+            if (shift.status === "locked") throw new Error("Shift is locked");
+            if (shift.status === "cancelled") throw new Error("Shift was cancelled");
 
-        if (mainCount < shift.requiredVolunteers) {
-            // Add to main list
+            const entry = shift.waitlistVolunteers.find((w: WaitlistRec) => w.userId.equals(uid));
+            if (!entry || !entry.offerExpiresAt) throw new Error("No promotion offer for this user");
+            if (entry.offerExpiresAt <= new Date()) throw new Error("Promotion offer has expired");
+
+            const arrivalTime = times?.arrivalTime || entry.arrivalTime;
+            const leavingTime = times?.leavingTime || entry.leavingTime;
+            if (!arrivalTime || !leavingTime) throw new Error("arrivalTime and leavingTime are required.");
+            const { arrivalAt, leavingAt } = resolveRegistrationTimes(shift, arrivalTime, leavingTime);
+
+            shift.waitlistVolunteers = shift.waitlistVolunteers.filter((w: WaitlistRec) => !w.userId.equals(uid));
             shift.registeredVolunteers.push({
                 userId: uid,
-                volunteerType,
+                volunteerType: entry.volunteerType,
+                hasDriverLicense: entry.hasDriverLicense,
                 arrivalTime,
                 leavingTime,
-                note,
+                arrivalAt,
+                leavingAt,
+                note: times?.note ?? entry.note,
                 approved: false,
-                waitlist: false
+                waitlist: false,
+                registeredAt: entry.registeredAt
             } as RegisteredRec);
-        } else {
-            // Add to waitlist (FIFO)
-            shift.waitlistVolunteers.push({
-                userId: uid,
-                volunteerType,
-                registeredAt: new Date()
-            } as WaitlistRec);
-        }
+            shift.registeredVolunteers.sort(byArrival(shift));
+        });
+
+        void auditService.record({
+            actor: auditService.byUser(userId),
+            action: "registration.promote",
+            targetType: "shift",
+            targetId: shiftId,
+            subjectId: uid,
+            changes: [{ field: "status", before: "waitlisted", after: RegistrationStatus.Pending }]
+        });
+        return shift.toObject();
+    }
+
+    // Decline a promotion offer: leave the waitlist and pass the spot to the next in line
+    public async declineOffer(shiftId: string, userId: string) {
+        const uid = new mongoose.Types.ObjectId(userId);
 
-        await shift.save();
+        const { shift, result: offered } = await saveWithRetry(shiftId, shift => {
+            const entry = shift.waitlistVolunteers.find((w: WaitlistRec) => w.userId.equals(uid));
+            if (!entry || !entry.offerExpiresAt) throw new Error("No promotion offer for this user");
+
+            shift.waitlistVolunteers = shift.waitlistVolunteers.filter((w: WaitlistRec) => !w.userId.equals(uid));
+            return this.offerFreeSpots(shift);
+        });
+
+        offered.forEach(w => void notificationService.waitlistOffer(shift, w.userId, w.offerExpiresAt!));
+        void auditService.record([
+            { actor: auditService.byUser(userId), action: "registration.decline", targetType: "shift", targetId: shiftId, subjectId: uid },
+            ...offerEntries(shiftId, offered, "system")
+        ]);
         return shift.toObject();
     }
 
     /**
-     * Unregister a volunteer.
-     * - If removed from main list, promote first waitlisted user (FIFO).
+     * Sweep unanswered offers (run periodically):
+     * - expired offerees leave the waitlist and are told so
+     * - their spots are offered to the next volunteers in FIFO order
      */
-    public async unregister(shiftId: string, userId: string) {
-        const shift = await ShiftModel.findById(shiftId).exec();
-        if (!shift) throw new Error("Shift not found");
+    public async processExpiredOffers(): Promise<number> {
+        const ids = await ShiftModel.distinct("_id", { "waitlistVolunteers.offerExpiresAt": { $lte: new Date() } }).exec() as mongoose.Types.ObjectId[];
 
-        const uid = new mongoose.Types.ObjectId(userId);
+        for (const id of ids) {
+            const { shift, result } = await saveWithRetry(id, shift => {
+                const now = new Date();
+                const isExpired = (w: WaitlistRec) => !!w.offerExpiresAt && w.offerExpiresAt <= now;
+                const expired = shift.waitlistVolunteers.filter(isExpired);
+                shift.waitlistVolunteers = shift.waitlistVolunteers.filter((w: WaitlistRec) => !isExpired(w));
+                return { expired, offered: this.offerFreeSpots(shift, now) };
+            });
 
-        const beforeMain = shift.registeredVolunteers.length;
-        shift.registeredVolunteers = shift.registeredVolunteers.filter(
-            (r: RegisteredRec) => !r.userId.equals(uid)
-        );
+            result.expired.forEach(w => void notificationService.offerExpired(shift, w.userId));
+            result.offered.forEach(w => void notificationService.waitlistOffer(shift, w.userId, w.offerExpiresAt!));
+            void auditService.record([
+                ...result.expired.map((w): AuditEntry => ({
+                    actor: { source: "scheduler" },
+                    action: "registration.offerExpired",
+                    targetType: "shift",
+                    targetId: id,
+                    subjectId: w.userId,
+                    details: { expiresAt: w.offerExpiresAt }
+                })),
+                ...offerEntries(id, result.offered, "scheduler")
+            ]);
+        }
+        return ids.length;
+    }
 
-        // If somebody removed from main, promote earliest waitlisted
-        if (shift.registeredVolunteers.length < beforeMain && shift.waitlistVolunteers.length > 0) {
-            const [promoted] = shift.waitlistVolunteers
-                .sort((a: WaitlistRec, b: WaitlistRec) => a.registeredAt.getTime() - b.registeredAt.getTime())
-                .splice(0, 1);
+    /**
+     * Move a shift through its lifecycle (see transitions). Throws on a transition that isn't allowed.
+     * Each change is recorded in statusHistory with its source (officer or scheduler).
+     * Cancelling keeps the registrations for history, withdraws open waitlist offers and emails everyone on the shift.
+     * Locking withdraws open offers too; reopening offers the free spots again.
+     */
+    public async transition(shiftId: string, action: ShiftAction, actor: { source: "officer" | "scheduler"; userId?: string }, reason?: string) {
+        const { shift, result: { previous: before, offered } } = await saveWithRetry(shiftId, shift => {
+            const { from, to } = transitions[action];
+            if (!from.includes(shift.status)) throw new Error(`Cannot ${action} a shift that is ${shift.status}`);
+            const previous = shift.status;
 
-            if (promoted) {
-                shift.registeredVolunteers.push({
-                    userId: promoted.userId,
-                    volunteerType: promoted.volunteerType,
-                    arrivalTime: "00:00", // placeholder; frontend should update
-                    leavingTime: "00:00",
-                    note: undefined,
-                    approved: false,
-                    waitlist: false
-                } as RegisteredRec);
+            shift.statusHistory.push({
+                action,
+                from: shift.status,
+                to,
+                at: new Date(),
+                source: actor.source,
+                by: actor.userId ? new mongoose.Types.ObjectId(actor.userId) : undefined,
+                reason
+            });
+            shift.status = to;
+
+            // Offers can't be accepted on a locked / cancelled shift: withdraw them (the volunteers keep their waitlist place)
+            if (action === "cancel" || action === "lock") {
+                shift.waitlistVolunteers.forEach((w: WaitlistRec) => {
+                    w.offeredAt = undefined;
+                    w.offerExpiresAt = undefined;
+                });
+            }
+            // Reopening makes free spots available to the waitlist again
+            const offered = action === "reopen" ? this.offerFreeSpots(shift) : [];
+            return { previous, offered };
+        });
+
+        if (action === "cancel") void notificationService.shiftCancelled(shift, notificationService.participantsOf(shift), reason);
+        offered.forEach(w => void notificationService.waitlistOffer(shift, w.userId, w.offerExpiresAt!));
+        const auditActor: AuditActor = actor.source === "scheduler" ? { source: "scheduler" } : auditService.byUser(actor.userId!);
+        void auditService.record([
+            {
+                actor: auditActor,
+                action: "shift.status",
+                targetType: "shift",
+                targetId: shiftId,
+                changes: [{ field: "status", before, after: shift.status }],
+                reason,
+                details: { action }
+            },
+            ...offerEntries(shiftId, offered, "system")
+        ]);
+        return shift.toObject();
+    }
+
+    /**
+     * Lock open/published shifts that start within appConfig.autoLockHours (run periodically).
+     * Shifts an officer reopened are left alone.
+     */
+    public async autoLock(now = new Date()): Promise<number> {
+        const horizon = now.getTime() + appConfig.autoLockHours * 60 * 60 * 1000;
+
+        // Shift dates are calendar days; the real start is checked below
+        const candidates = await ShiftModel.find({
+            status: { $in: ["open", "published"] },
+            date: { $lte: new Date(horizon + DAY_MS) },
+            "statusHistory.action": { $ne: "reopen" }
+        }).select("date shiftType timeWindow").lean<Pick<IShift, "_id" | "date" | "shiftType" | "timeWindow">[]>().exec();
+
+        let locked = 0;
+        for (const shift of candidates) {
+            if (windowRange(shift).start.getTime() > horizon) continue;
+            try {
+                await this.transition(String(shift._id), "lock", { source: "scheduler" }, `Starts within ${appConfig.autoLockHours} hours`);
+                locked++;
+            }
+            catch (err) {
+                console.log("Auto-lock failed for shift " + shift._id, err);
             }
         }
+        return locked;
+    }
 
-        const beforeWait = shift.waitlistVolunteers.length;
-        shift.waitlistVolunteers = shift.waitlistVolunteers.filter(
-            (w: WaitlistRec) => !w.userId.equals(uid)
+    // Remove the per-registration status that used to duplicate the approved flag (run at startup; approved wins)
+    public async clearRegistrationStatus(): Promise<void> {
+        await ShiftModel.collection.updateMany(
+            { "registeredVolunteers.status": { $exists: true } },
+            { $unset: { "registeredVolunteers.$[].status": "" } }
         );
+    }
 
-        if (
-            shift.registeredVolunteers.length === beforeMain &&
-            shift.waitlistVolunteers.length === beforeWait
-        ) {
-            throw new Error("User was not registered or waitlisted");
+    /**
+     * Prepare existing data for the one-live-shift-per-day index, then build the indexes (run at startup):
+     * - dates stored with a time of day move to midnight UTC of that day
+     * - of live shifts sharing a day, unit and type, extra ones nobody ever registered for are deleted;
+     *   duplicates with registrations are logged for an officer to cancel (the index stays unbuilt until then)
+     */
+    public async prepareDayIndex(): Promise<void> {
+        const stray = await ShiftModel.find({ $expr: { $ne: ["$date", { $dateTrunc: { date: "$date", unit: "day" } }] } })
+            .select("date")
+            .lean<Pick<IShift, "_id" | "date">[]>()
+            .exec();
+        if (stray.length > 0) {
+            await ShiftModel.bulkWrite(stray.map(s => ({ updateOne: { filter: { _id: s._id }, update: { $set: { date: startOfDay(s.date) } } } })));
         }
 
-        await shift.save();
-        return shift.toObject();
+        const groups = await ShiftModel.aggregate<{ ids: mongoose.Types.ObjectId[] }>([
+            { $match: { status: { $in: LIVE_STATUSES } } },
+            { $group: { _id: { date: "$date", unit: "$unit", shiftType: "$shiftType" }, ids: { $push: "$_id" }, count: { $sum: 1 } } },
+            { $match: { count: { $gt: 1 } } }
+        ]).exec();
+
+        const used = (s: IShift) => s.registeredVolunteers.length + s.waitlistVolunteers.length + s.closedRegistrations.length > 0;
+        for (const group of groups) {
+            const shifts = await ShiftModel.find({ _id: { $in: group.ids } }).sort({ createdAt: 1 }).lean<IShift[]>().exec();
+            // Keep the first shift volunteers registered for (else the oldest)
+            const keep = shifts.find(used) ?? shifts[0];
+            for (const shift of shifts) {
+                if (shift === keep) continue;
+                if (used(shift)) {
+                    console.log(`Shift ${shift._id} duplicates shift ${keep._id} (same day, unit and type) and has registrations; cancel one of them.`);
+                    continue;
+                }
+                await ShiftModel.deleteOne({ _id: shift._id }).exec();
+                void auditService.record({
+                    actor: { source: "system" },
+                    action: "shift.delete",
+                    targetType: "shift",
+                    targetId: shift._id as mongoose.Types.ObjectId,
+                    reason: `Duplicate of shift ${keep._id}`,
+                    changes: auditService.diff(shift, {}, [...EDITABLE_FIELDS, "status"])
+                });
+            }
+        }
+
+        try {
+            await ShiftModel.createIndexes();
+        }
+        catch (err) {
+            console.log("Shift indexes not built:", err);
+        }
     }
 
-    // Approve or revoke approval for a main-list volunteer
-    public async approve(shiftId: string, volunteerId: string, approve: boolean) {
-        const shift = await ShiftModel.findById(shiftId).exec();
+    /**
+     * Reject a registration that overlaps, or leaves too little rest next to, the volunteer's other shifts.
+     * Invalid times are left for the main checks to report.
+     */
+    private async assertNoScheduleConflicts(shiftId: string, userId: string, timesOf: (shift: IShift) => { arrivalTime?: string; leavingTime?: string }) {
+        const shift = await ShiftModel.findById(shiftId).lean<IShift | null>().exec();
         if (!shift) throw new Error("Shift not found");
 
-        const vid = new mongoose.Types.ObjectId(volunteerId);
-        const rec = shift.registeredVolunteers.find((r: RegisteredRec) => r.userId.equals(vid));
-        if (!rec) throw new Error("Volunteer not found in main registrations");
+        const { arrivalTime, leavingTime } = timesOf(shift);
+        if (!arrivalTime || !leavingTime) return;
+        let range;
+        try {
+            range = resolveRegistrationTimes(shift, arrivalTime, leavingTime);
+        }
+        catch {
+            return;
+        }
 
-        rec.approved = approve;
-        await shift.save();
-        return shift.toObject();
+        const conflicts = await conflictService.findForRegistration(userId, shiftId, range);
+        if (conflicts.length > 0) {
+            throw new ScheduleConflictError("Registration conflicts with your other shifts.", conflicts);
+        }
+    }
+
+    /**
+     * Offer free main-list spots to waitlisted volunteers without an offer, oldest first. Returns the new offerees.
+     * Reserved slots skip volunteers who don't fill a missing requirement. Locked / cancelled shifts make no offers.
+     */
+    private offerFreeSpots(shift: IShift, now = new Date()): WaitlistRec[] {
+        if (shift.status === "cancelled" || shift.status === "locked") return [];
+        const holders = slotHolders(shift, now);
+        let free = shift.requiredVolunteers - holders.length;
+        if (free <= 0) return [];
+
+        // Offer is held until the deadline, but never past the time the shift locks (see autoLock; reopened shifts don't auto-lock)
+        const start = windowRange(shift).start.getTime();
+        const reopened = shift.statusHistory.some(h => h.action === "reopen");
+        const locksAt = reopened ? start : start - appConfig.autoLockHours * 60 * 60 * 1000;
+        const deadline = new Date(Math.min(now.getTime() + appConfig.waitlistOfferHours * 60 * 60 * 1000, locksAt));
+        if (deadline <= now) return [];
+
+        const queue = shift.waitlistVolunteers
+            .filter((w: WaitlistRec) => !w.offerExpiresAt)
+            .sort((a: WaitlistRec, b: WaitlistRec) => new Date(a.registeredAt).getTime() - new Date(b.registeredAt).getTime());
+
+        const offered: WaitlistRec[] = [];
+        for (const entry of queue) {
+            if (free <= 0) break;
+            if (!mayTakeSlot(shift.requirements, holders, entry, free)) continue;
+            entry.offeredAt = now;
+            entry.offerExpiresAt = deadline;
+            offered.push(entry);
+            holders.push(entry);
+            free--;
+        }
+        return offered;
+    }
+
+    /**
+     * Review main-list registrations (officer):
+     * - approved / pending (approval withdrawn) update the record in place
+     * - rejected moves it to the history with the reason; the freed spot is offered to the waitlist
+     * Without volunteerIds every pending registration is reviewed (bulk approve / reject).
+     */
+    public async review(params: { shiftId: string; officerId: string; status: ReviewStatus; volunteerIds?: string[]; reason?: string }) {
+        const { shiftId, status, volunteerIds, reason } = params;
+        const oid = new mongoose.Types.ObjectId(params.officerId);
+
+        const { shift, result } = await saveWithRetry(shiftId, shift => {
+            const targets = volunteerIds
+                ? [...new Set(volunteerIds.map(String))].map(id => {
+                    const rec = shift.registeredVolunteers.find((r: RegisteredRec) => r.userId.equals(id));
+                    if (!rec) throw new Error(`Volunteer ${id} not found in main registrations`);
+                    return rec;
+                })
+                : shift.registeredVolunteers.filter((r: RegisteredRec) => statusOf(r) === RegistrationStatus.Pending);
+
+            const now = new Date();
+            const changed: mongoose.Types.ObjectId[] = [];
+            const audit: AuditEntry[] = [];
+            for (const rec of targets) {
+                const previous = statusOf(rec);
+                if (previous === status) continue;
+                if (status === RegistrationStatus.Rejected) {
+                    closeRegistration(shift, rec, status, oid, reason);
+                } else {
+                    rec.approved = status === RegistrationStatus.Approved;
+                    rec.reviewedBy = oid;
+                    rec.reviewedAt = now;
+                    rec.reviewReason = reason;
+                }
+                changed.push(rec.userId);
+                audit.push({
+                    actor: auditService.byUser(oid),
+                    action: "registration.review",
+                    targetType: "shift",
+                    targetId: shiftId,
+                    subjectId: rec.userId,
+                    changes: [{ field: "status", before: previous, after: status }],
+                    reason
+                });
+            }
+
+            const offered = status === RegistrationStatus.Rejected && changed.length > 0 ? this.offerFreeSpots(shift, now) : [];
+            return { changed, offered, audit };
+        });
+
+        result.changed.forEach(uid => void notificationService.registrationReviewed(shift, uid, status, reason));
+        result.offered.forEach(w => void notificationService.waitlistOffer(shift, w.userId, w.offerExpiresAt!));
+        void auditService.record([...result.audit, ...offerEntries(shiftId, result.offered, "system")]);
+        return { shift: shift.toObject(), reviewed: result.changed };
+    }
+
+    // A volunteer's state on a shift: main list (pending/approved), waitlist (with position), history, or none
+    public registrationOf(shift: Pick<IShift, "registeredVolunteers" | "waitlistVolunteers" | "closedRegistrations">, userId: string | mongoose.Types.ObjectId): RegistrationView {
+        const uid = new mongoose.Types.ObjectId(String(userId));
+
+        const rec = shift.registeredVolunteers.find((r: RegisteredRec) => r.userId.equals(uid));
+        if (rec) return {
+            status: statusOf(rec),
+            reason: rec.reviewReason,
+            reviewedAt: rec.reviewedAt,
+            arrivalTime: rec.arrivalTime,
+            leavingTime: rec.leavingTime,
+            checkedInAt: rec.attendance?.checkedInAt,
+            checkedOutAt: rec.attendance?.checkedOutAt
+        };
+
+        const queue = [...shift.waitlistVolunteers]
+            .sort((a: WaitlistRec, b: WaitlistRec) => new Date(a.registeredAt).getTime() - new Date(b.registeredAt).getTime());
+        const index = queue.findIndex((w: WaitlistRec) => w.userId.equals(uid));
+        if (index >= 0) return {
+            status: "waitlisted",
+            waitlistPosition: index + 1,
+            offerExpiresAt: queue[index].offerExpiresAt,
+            arrivalTime: queue[index].arrivalTime,
+            leavingTime: queue[index].leavingTime
+        };
+
+        // Latest closed registration, if any
+        const closed = (shift.closedRegistrations ?? [])
+            .filter((c: ClosedRec) => c.userId.equals(uid))
+            .sort((a: ClosedRec, b: ClosedRec) => new Date(b.reviewedAt).getTime() - new Date(a.reviewedAt).getTime())[0];
+        if (closed) return { status: closed.status, reason: closed.reviewReason, reviewedAt: closed.reviewedAt };
+
+        return { status: "none" };
+    }
+
+    // The current user's registration state on a shift (null if the shift doesn't exist)
+    public async getRegistration(shiftId: string, userId: string) {
+        const shift = await ShiftModel.findById(shiftId).lean<IShift | null>().exec();
+        if (!shift) return null;
+        return { shiftId: shift._id, ...this.registrationOf(shift, userId) };
     }
 
     /**
      * Compute status indicator for officer home:
-     * - color: gray|green|orange|blue
+     * - color: gray|green|orange|blue (green/blue only when the composition requirements are met)
+     * - unmet: composition requirements the approved volunteers don't satisfy
      * - pendingIcon: true if any non-approved in main list
+     * - coverage: approved time span and planned hours, from the resolved instants;
+     *   actualHours sums recorded attendance (check-in to check-out), the source for hour totals
      */
     public async statusIndicator(shiftId: string) {
         const shift = await ShiftModel.findById(shiftId).lean<IShift | null>().exec();
@@ -178,14 +909,40 @@ class ShiftService {
 
         const total = shift.registeredVolunteers.length;
         const approved = shift.registeredVolunteers.filter((r: RegisteredRec) => r.approved).length;
-        const hasPending = shift.registeredVolunteers.some((r: RegisteredRec) => !r.approved);
+        const hasPending = shift.registeredVolunteers.some((r: RegisteredRec) => statusOf(r) === RegistrationStatus.Pending);
+
+        // Registrations made before licences were recorded: read them from the profiles
+        const unknown = shift.registeredVolunteers.filter((r: RegisteredRec) => r.hasDriverLicense === undefined).map((r: RegisteredRec) => r.userId);
+        const licensed = new Set<string>();
+        if (unknown.length > 0) {
+            const users = await UserModel.find({ _id: { $in: unknown }, "volunteerData.hasDriverLicense": true }).select("_id").lean<Pick<IUser, "_id">[]>().exec();
+            users.forEach(u => licensed.add(String(u._id)));
+        }
+        const unmet = unmetRequirements(shift.requirements, shift.registeredVolunteers
+            .filter((r: RegisteredRec) => r.approved)
+            .map((r: RegisteredRec) => ({ volunteerType: r.volunteerType, hasDriverLicense: r.hasDriverLicense ?? licensed.has(String(r.userId)) })));
+        const staffed = approved >= shift.requiredVolunteers && unmet.length === 0;
 
         let color: "gray" | "green" | "orange" | "blue";
         if (total === 0) color = "gray";
-        else if (approved >= shift.requiredVolunteers && shift.waitlistVolunteers.length > 0) color = "blue";
-        else if (approved >= shift.requiredVolunteers) color = "green";
+        else if (staffed && shift.waitlistVolunteers.length > 0) color = "blue";
+        else if (staffed) color = "green";
         else color = "orange";
 
+        // Approved coverage based on real instants
+        let coverageFrom: Date | null = null;
+        let coverageTo: Date | null = null;
+        let plannedHours = 0;
+        let actualHours = 0;
+        for (const r of shift.registeredVolunteers.filter((r: RegisteredRec) => r.approved)) {
+            actualHours += workedHours(r) ?? 0;
+            const range = registrationRange(shift, r);
+            if (!range) continue;
+            if (!coverageFrom || range.arrivalAt < coverageFrom) coverageFrom = range.arrivalAt;
+            if (!coverageTo || range.leavingAt > coverageTo) coverageTo = range.leavingAt;
+            plannedHours += hoursBetween(range.arrivalAt, range.leavingAt);
+        }
+
         return {
             color,
             pendingIcon: hasPending,
@@ -195,9 +952,113 @@ class ShiftService {
                 required: shift.requiredVolunteers,
                 waitlisted: shift.waitlistVolunteers.length
             },
+            unmet,
+            coverage: {
+                from: coverageFrom,
+                to: coverageTo,
+                plannedHours: Math.round(plannedHours * 100) / 100,
+                actualHours: Math.round(actualHours * 100) / 100
+            },
             status: shift.status
         };
     }
+
+    /**
+     * Status indicators for every shift in a date range (officer calendar), in one aggregation.
+     * Same rules as statusIndicator: counts, pending flag, unmet composition requirements and colour.
+     */
+    public async dashboard(params: { from: Date; to: Date; unit?: IShift["unit"] }) {
+        const { from, to, unit } = params;
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) throw new Error("Invalid date range");
+        if ((to.getTime() - from.getTime()) / DAY_MS > MAX_RANGE_DAYS) throw new Error(`Date range is limited to ${MAX_RANGE_DAYS} days`);
+
+        const match: any = { date: { $gte: from, $lte: to } };
+        if (unit) match.unit = unit;
+
+        const approvedRecs = { $filter: { input: "$registeredVolunteers", as: "r", cond: { $eq: ["$$r.approved", true] } } };
+        // Registrations saved before licences were recorded fall back to the profile
+        const isDriver = { $ifNull: ["$$r.hasDriverLicense", { $in: ["$$r.userId", "$licensed._id"] }] };
+
+        return ShiftModel.aggregate([
+            { $match: match },
+            { $sort: { date: 1, unit: 1 } },
+            {
+                $lookup: {
+                    from: UserModel.collection.name,
+                    let: { ids: { $ifNull: ["$registeredVolunteers.userId", []] } },
+                    pipeline: [
+                        { $match: { $expr: { $in: ["$_id", "$$ids"] }, "volunteerData.hasDriverLicense": true } },
+                        { $project: { _id: 1 } }
+                    ],
+                    as: "licensed"
+                }
+            },
+            {
+                $project: {
+                    date: 1, unit: 1, shiftType: 1, status: 1,
+                    required: "$requiredVolunteers",
+                    total: { $size: "$registeredVolunteers" },
+                    approved: { $size: approvedRecs },
+                    waitlisted: { $size: { $ifNull: ["$waitlistVolunteers", []] } },
+                    pendingIcon: {
+                        $anyElementTrue: [{
+                            $map: {
+                                input: "$registeredVolunteers", as: "r",
+                                in: { $ne: ["$$r.approved", true] } // Same rule as statusOf
+                            }
+                        }]
+                    },
+                    stageNeeds: {
+                        $map: {
+                            input: { $ifNull: ["$requirements.volunteerTypes", []] }, as: "req",
+                            in: {
+                                requirement: "volunteerType",
+                                volunteerType: "$$req.volunteerType",
+                                required: "$$req.min",
+                                have: { $size: { $filter: { input: approvedRecs, as: "r", cond: { $eq: ["$$r.volunteerType", "$$req.volunteerType"] } } } }
+                            }
+                        }
+                    },
+                    driverNeed: {
+                        requirement: "drivers",
+                        required: { $ifNull: ["$requirements.drivers", 0] },
+                        have: { $size: { $filter: { input: approvedRecs, as: "r", cond: isDriver } } }
+                    }
+                }
+            },
+            {
+                $addFields: {
+                    unmet: {
+                        $map: {
+                            input: { $filter: { input: { $concatArrays: ["$stageNeeds", ["$driverNeed"]] }, as: "n", cond: { $lt: ["$$n.have", "$$n.required"] } } },
+                            as: "n",
+                            in: { $mergeObjects: ["$$n", { missing: { $subtract: ["$$n.required", "$$n.have"] } }] }
+                        }
+                    }
+                }
+            },
+            {
+                $addFields: {
+                    color: {
+                        $switch: {
+                            branches: [
+                                { case: { $eq: ["$total", 0] }, then: "gray" },
+                                { case: { $or: [{ $lt: ["$approved", "$required"] }, { $gt: [{ $size: "$unmet" }, 0] }] }, then: "orange" },
+                                { case: { $gt: ["$waitlisted", 0] }, then: "blue" }
+                            ],
+                            default: "green"
+                        }
+                    }
+                }
+            },
+            {
+                $project: {
+                    date: 1, unit: 1, shiftType: 1, status: 1, color: 1, pendingIcon: 1, unmet: 1,
+                    counts: { approved: "$approved", total: "$total", required: "$required", waitlisted: "$waitlisted" }
+                }
+            }
+        ]).exec();
+    }
 }
 
 export const shiftService = new ShiftService();
@@ -0,0 +1,131 @@
+import mongoose from "mongoose";
+import { ShiftTemplateModel, IShiftTemplate } from "../3-models/shift-template-model";
+import { ShiftModel, IShift } from "../3-models/shift-model";
+import { DAY_MS, MAX_RANGE_DAYS, startOfDay } from "../2-utils/shift-time";
+import { AuditEntry, auditService } from "./audit-service";
+
+/**
+ * ShiftTemplateService - recurring shift templates:
+ * - list/get/create/update/delete templates
+ * - generate concrete shifts for a date range (with dry-run preview); generated shifts are audited as created
+ */
+
+// "YYYY-MM-DD" key for comparing days
+function dayKey(d: Date): string {
+    return startOfDay(d).toISOString().slice(0, 10);
+}
+
+class ShiftTemplateService {
+    // List templates, optionally only active ones
+    public list(params: { unit?: IShiftTemplate["unit"]; active?: boolean }) {
+        const { unit, active } = params || {};
+        const q: any = {};
+        if (unit) q.unit = unit;
+        if (active !== undefined) q.active = active;
+        return ShiftTemplateModel.find(q).sort({ unit: 1, name: 1 }).lean<IShiftTemplate[]>().exec();
+    }
+
+    // Get single template
+    public getOne(id: string) {
+        return ShiftTemplateModel.findById(id).lean<IShiftTemplate | null>().exec();
+    }
+
+    // Create a template document
+    public create(data: Partial<IShiftTemplate>) {
+        return new ShiftTemplateModel(data).save();
+    }
+
+    // Update and return the updated doc (or null)
+    public update(id: string, data: Partial<IShiftTemplate>) {
+        return ShiftTemplateModel.findByIdAndUpdate(id, data, { new: true, runValidators: true }).lean<IShiftTemplate | null>().exec();
+    }
+
+    // Delete a template (already generated shifts are kept)
+    public remove(id: string) {
+        return ShiftTemplateModel.findByIdAndDelete(id).lean<IShiftTemplate | null>().exec();
+    }
+
+    /**
+     * Generate shifts from a template for [from, to] (inclusive, by day).
+     * - Only days matching the template's weekdays.
+     * - Days that already have a live (not cancelled) shift for the same unit/type are skipped,
+     *   including one created while generating (the unique index rejects it).
+     * - dryRun: return what would be created without saving.
+     */
+    public async generate(params: { templateId: string; officerId: string; from: Date; to: Date; dryRun?: boolean }) {
+        const { templateId, dryRun } = params;
+
+        if (isNaN(params.from.getTime()) || isNaN(params.to.getTime())) throw new Error("Invalid date range");
+        const from = startOfDay(params.from);
+        const to = startOfDay(params.to);
+        if (from > to) throw new Error("'from' must be before 'to'");
+        if ((to.getTime() - from.getTime()) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+            throw new Error(`Date range is limited to ${MAX_RANGE_DAYS} days`);
+        }
+
+        const template = await ShiftTemplateModel.findById(templateId).lean<IShiftTemplate | null>().exec();
+        if (!template) throw new Error("Template not found");
+        if (!template.active) throw new Error("Template is not active");
+
+        // Existing shifts of the same unit/type in range
+        const existing = await ShiftModel.find({
+            unit: template.unit,
+            shiftType: template.shiftType,
+            date: { $gte: from, $lt: new Date(to.getTime() + DAY_MS) },
+            status: { $ne: "cancelled" }
+        }).select("date").lean<Pick<IShift, "date">[]>().exec();
+        const taken = new Set(existing.map(s => dayKey(s.date)));
+
+        const toCreate: Partial<IShift>[] = [];
+        const skipped: string[] = [];
+        for (let t = from.getTime(); t <= to.getTime(); t += DAY_MS) {
+            const date = new Date(t);
+            if (!template.weekdays.includes(date.getUTCDay())) continue;
+            if (taken.has(dayKey(date))) {
+                skipped.push(dayKey(date));
+                continue;
+            }
+            toCreate.push({
+                date,
+                unit: template.unit,
+                shiftType: template.shiftType,
+                requiredVolunteers: template.requiredVolunteers,
+                requirements: template.requirements,
+                sharedNote: template.sharedNote,
+                status: "open"
+            });
+        }
+
+        if (dryRun || toCreate.length === 0) {
+            return { dryRun: !!dryRun, created: toCreate, skipped };
+        }
+
+        const created = await this.insertNew(toCreate, skipped);
+        void auditService.record(created.map((shift): AuditEntry => ({
+            actor: auditService.byUser(params.officerId),
+            action: "shift.create",
+            targetType: "shift",
+            targetId: shift._id as mongoose.Types.ObjectId,
+            changes: auditService.diff({}, (shift as IShift).toObject(), ["date", "unit", "shiftType", "requiredVolunteers", "requirements", "sharedNote", "status"]),
+            details: { templateId }
+        })));
+        return { dryRun: false, created, skipped };
+    }
+
+    // Insert the shifts, adding days that got a shift meanwhile to skipped
+    private async insertNew(shifts: Partial<IShift>[], skipped: string[]): Promise<IShift[]> {
+        try {
+            return await ShiftModel.insertMany(shifts, { ordered: false });
+        }
+        catch (err: any) {
+            if (err?.code !== 11000) throw err;
+            const inserted: IShift[] = err.insertedDocs ?? [];
+            const insertedDays = new Set(inserted.map(s => dayKey(s.date)));
+            skipped.push(...shifts.map(s => dayKey(s.date!)).filter(day => !insertedDays.has(day)));
+            skipped.sort();
+            return inserted;
+        }
+    }
+}
+
+export const shiftTemplateService = new ShiftTemplateService();
@@ -0,0 +1,93 @@
+import mongoose from "mongoose";
+import { IShift } from "../3-models/shift-model";
+import { IUser, UserModel } from "../3-models/user-model";
+import { AuthUser } from "../3-models/auth-user";
+import { UserRole } from "../3-models/role";
+import { shiftWindow } from "../2-utils/shift-time";
+import { shiftService } from "./shift-service";
+
+/**
+ * ShiftViewService - shapes shift responses by role:
+ * - volunteers: shared info, counts and their own registration (no officer notes, no other volunteers)
+ * - officers: the full document, with each roster entry populated with the volunteer's details
+ */
+
+type VolunteerInfo = {
+    _id: mongoose.Types.ObjectId;
+    fullName: string;
+    phone: string;
+    volunteerType?: string;
+    profileImageUrl: string | null;
+};
+
+// Builds a clickable URL from a stored profile image path (depends on the request host)
+export type ImageUrlBuilder = (relativePath?: string) => string | null;
+
+class ShiftViewService {
+    // Shape one shift or a list for the given viewer
+    public async present(shifts: IShift | IShift[], viewer: AuthUser, imageUrl: ImageUrlBuilder): Promise<object | object[]> {
+        const list = Array.isArray(shifts) ? shifts : [shifts];
+        const views = viewer.role === UserRole.Officer
+            ? await this.forOfficer(list, imageUrl)
+            : list.map(shift => this.forVolunteer(shift, viewer._id));
+        return Array.isArray(shifts) ? views : views[0];
+    }
+
+    // What any volunteer may see about a shift, plus their own registration
+    public forVolunteer(shift: IShift, userId: string) {
+        const approved = shift.registeredVolunteers.filter(r => r.approved).length;
+        const now = new Date();
+        const held = shift.waitlistVolunteers.filter(w => w.offerExpiresAt && new Date(w.offerExpiresAt) > now).length; // Spots offered to the waitlist
+        return {
+            _id: shift._id,
+            date: shift.date,
+            shiftType: shift.shiftType,
+            unit: shift.unit,
+            window: shiftWindow(shift),
+            status: shift.status,
+            sharedNote: shift.sharedNote,
+            requiredVolunteers: shift.requiredVolunteers,
+            requirements: shift.requirements,
+            counts: {
+                registered: shift.registeredVolunteers.length,
+                approved,
+                waitlisted: shift.waitlistVolunteers.length,
+                free: Math.max(0, shift.requiredVolunteers - shift.registeredVolunteers.length - held)
+            },
+            myRegistration: shiftService.registrationOf(shift, userId)
+        };
+    }
+
+    // Full documents with volunteer details on every roster entry (one user query for all shifts)
+    public async forOfficer(shifts: IShift[], imageUrl: ImageUrlBuilder) {
+        const ids = new Set<string>();
+        for (const shift of shifts) {
+            shift.registeredVolunteers.forEach(r => ids.add(String(r.userId)));
+            shift.waitlistVolunteers.forEach(w => ids.add(String(w.userId)));
+            (shift.closedRegistrations ?? []).forEach(c => ids.add(String(c.userId)));
+        }
+
+        const users = ids.size === 0 ? [] : await UserModel.find({ _id: { $in: [...ids] } })
+            .select("fullName phone volunteerData profileImage")
+            .lean<Pick<IUser, "_id" | "fullName" | "phone" | "volunteerData" | "profileImage">[]>()
+            .exec();
+        const byId = new Map<string, VolunteerInfo>(users.map(u => [String(u._id), {
+            _id: u._id as mongoose.Types.ObjectId,
+            fullName: u.fullName,
+            phone: u.phone,
+            volunteerType: u.volunteerData?.volunteerType,
+            profileImageUrl: imageUrl(u.profileImage)
+        }]));
+        const withVolunteer = <T extends { userId: mongoose.Types.ObjectId }>(rec: T) => ({ ...rec, volunteer: byId.get(String(rec.userId)) ?? null });
+
+        return shifts.map(shift => ({
+            ...shift,
+            window: shiftWindow(shift),
+            registeredVolunteers: shift.registeredVolunteers.map(withVolunteer),
+            waitlistVolunteers: shift.waitlistVolunteers.map(withVolunteer),
+            closedRegistrations: (shift.closedRegistrations ?? []).map(withVolunteer)
+        }));
+    }
+}
+
+export const shiftViewService = new ShiftViewService();
@@ -0,0 +1,89 @@
+import mongoose from "mongoose";
+import { v4 as uuid } from "uuid";
+import { IUser, UserModel } from "../3-models/user-model";
+import { RefreshTokenModel } from "../3-models/refresh-token-model";
+import { AuthorizationError } from "../3-models/client-errors";
+import { AccountStatus } from "../3-models/account-status";
+import { cyber } from "../2-utils/cyber";
+import { appConfig } from "../2-utils/app-config";
+import { authUserService } from "./auth-user-service";
+
+// What login/register/refresh return to the client
+export type AuthTokens = { token: string; refreshToken: string };
+
+/**
+ * TokenService - access + refresh token lifecycle:
+ * - issue: short-lived JWT + rotating refresh token stored (hashed) server-side
+ * - refresh: rotate a refresh token; reusing a rotated one revokes the whole login
+ * - revoke: logout (one login) or revokeAll (every device, also kills issued JWTs)
+ */
+class TokenService {
+    // Issue an access token and a new refresh token (optionally continuing a login family)
+    public async issue(user: IUser, family: string = uuid()): Promise<AuthTokens> {
+        const refreshToken = cyber.generateRandomToken();
+        await new RefreshTokenModel({
+            userId: user._id,
+            tokenHash: cyber.hashToken(refreshToken),
+            family,
+            expiresAt: new Date(Date.now() + appConfig.refreshTokenDays * 24 * 60 * 60 * 1000)
+        }).save();
+
+        const token = cyber.generateToken(user);
+        return { token, refreshToken };
+    }
+
+    // Exchange a refresh token for a new pair
+    public async refresh(refreshToken: string): Promise<AuthTokens> {
+        const tokenHash = cyber.hashToken(String(refreshToken));
+
+        // Atomically mark as used so the same token cannot be rotated twice
+        const current = await RefreshTokenModel.findOneAndUpdate(
+            { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+            { revokedAt: new Date() }
+        ).exec();
+
+        if (!current) {
+            // A revoked token being replayed means it leaked: end that login everywhere
+            const reused = await RefreshTokenModel.findOne({ tokenHash }).exec();
+            if (reused?.revokedAt) {
+                await RefreshTokenModel.updateMany(
+                    { family: reused.family, revokedAt: { $exists: false } },
+                    { revokedAt: new Date() }
+                ).exec();
+            }
+            throw new AuthorizationError("Invalid or expired refresh token.");
+        }
+
+        const user = await UserModel.findById(current.userId).exec();
+        if (!user || (user.status ?? AccountStatus.Active) !== AccountStatus.Active) throw new AuthorizationError("Invalid or expired refresh token.");
+
+        return this.issue(user, current.family);
+    }
+
+    // Logout: revoke the login the refresh token belongs to
+    public async revoke(refreshToken: string): Promise<void> {
+        const token = await RefreshTokenModel.findOne({ tokenHash: cyber.hashToken(String(refreshToken)) }).exec();
+        if (!token) return;
+        await RefreshTokenModel.updateMany(
+            { family: token.family, revokedAt: { $exists: false } },
+            { revokedAt: new Date() }
+        ).exec();
+    }
+
+    // Logout everywhere: revoke all refresh tokens and invalidate every issued access token
+    public async revokeAll(userId: string | mongoose.Types.ObjectId): Promise<void> {
+        await RefreshTokenModel.updateMany(
+            { userId, revokedAt: { $exists: false } },
+            { revokedAt: new Date() }
+        ).exec();
+        await UserModel.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } }).exec();
+        authUserService.invalidate(userId);
+    }
+
+    // Remove all refresh tokens of a deleted account
+    public async deleteAllForUser(userId: string | mongoose.Types.ObjectId): Promise<void> {
+        await RefreshTokenModel.deleteMany({ userId }).exec();
+    }
+}
+
+export const tokenService = new TokenService();
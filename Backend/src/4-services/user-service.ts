@@ -1,10 +1,35 @@
 import { IUser, UserModel } from "../3-models/user-model";
-import { AuthorizationError, ValidationError } from "../3-models/client-errors";
+import mongoose from "mongoose";
+import { AuthorizationError, ForbiddenError, ValidationError } from "../3-models/client-errors";
+import { UserRole } from "../3-models/role";
+import { AccountStatus } from "../3-models/account-status";
+import { VolunteerType } from "../3-models/volunteer-type";
+import { RegistrationStatus } from "../3-models/registration-status";
+import { Gender } from "../3-models/gender";
+import { IShift, ShiftModel } from "../3-models/shift-model";
 import { cyber } from "../2-utils/cyber";
+import { appConfig } from "../2-utils/app-config";
+import { PasswordResetModel } from "../3-models/password-reset-model";
+import { notificationService } from "./notification-service";
+import { AuthTokens, tokenService } from "./token-service";
+import { inviteService } from "./invite-service";
+import { authUserService } from "./auth-user-service";
+import { shiftService } from "./shift-service";
+import { auditService } from "./audit-service";
+
+// Throws for pending / deactivated accounts (legacy accounts without status are active)
+export function assertActive(user: Pick<IUser, "status">): void {
+    if (user.status === AccountStatus.Pending) throw new ForbiddenError("Your account is waiting for officer approval.");
+    if (user.status === AccountStatus.Deactivated) throw new ForbiddenError("Your account has been deactivated.");
+}
 
 class UserService {
-    // Register a new user and return a JWT token
-    public async register(user: IUser): Promise<string> {
+    /**
+     * Register a new user.
+     * - With an invite code: the invite decides the role and the account is active right away.
+     * - Without one: volunteers only, pending until an officer activates them (no tokens yet).
+     */
+    public async register(user: IUser, inviteCode?: string): Promise<{ status: AccountStatus; tokens?: AuthTokens }> {
         // Normalize email: trim + lowercase (schema also enforces lowercase, but we validate on normalized value)
         if (user.email) user.email = String(user.email).trim().toLowerCase();
 
@@ -12,15 +37,197 @@ class UserService {
         const exists = await UserModel.exists({ email: user.email }).exec();
         if (exists) throw new ValidationError("Email already taken.");
 
-        // Save user to database
+        if (!inviteCode) {
+            if (user.role === UserRole.Officer) throw new ForbiddenError("Officer accounts require an invite code.");
+            user.role = UserRole.Volunteer;
+            user.status = AccountStatus.Pending;
+            const pending = await new UserModel(user).save();
+            void this.auditCreated(pending, pending._id as mongoose.Types.ObjectId, "user.register");
+            return { status: AccountStatus.Pending };
+        }
+
+        // Redeem invite, give it back if the account cannot be saved
+        const { role, release } = await inviteService.redeem(inviteCode, user.email, user._id as mongoose.Types.ObjectId);
+        user.role = role;
+        user.status = AccountStatus.Active;
+        let dbUser: IUser;
+        try {
+            dbUser = await new UserModel(user).save();
+        }
+        catch (err) {
+            await release();
+            throw err;
+        }
+        void this.auditCreated(dbUser, dbUser._id as mongoose.Types.ObjectId, "user.register");
+
+        // Generate and return tokens
+        return { status: AccountStatus.Active, tokens: await tokenService.issue(dbUser) };
+    }
+
+    // Officer creates an active account. Without a password, a random one is set and a reset link is emailed.
+    public async createByOfficer(user: IUser, hasPassword: boolean, officerId: string): Promise<IUser> {
+        if (user.email) user.email = String(user.email).trim().toLowerCase();
+
+        const exists = await UserModel.exists({ email: user.email }).exec();
+        if (exists) throw new ValidationError("Email already taken.");
+
+        if (!hasPassword) user.password = await cyber.hash(cyber.generateRandomToken());
+        user.status = AccountStatus.Active;
         const dbUser = await new UserModel(user).save();
+        void this.auditCreated(dbUser, officerId, "user.create");
+
+        if (!hasPassword) this.requestPasswordReset(dbUser.email);
+        return dbUser;
+    }
+
+    /**
+     * Officer user search with filters and pagination.
+     * - q: case-insensitive match on full name, service number or phone
+     * - role / status / volunteerType / hasDriverLicense / gender filters
+     */
+    public async search(params: {
+        q?: string;
+        role?: UserRole;
+        status?: AccountStatus;
+        volunteerType?: VolunteerType;
+        hasDriverLicense?: boolean;
+        gender?: Gender;
+        page?: number;
+        pageSize?: number;
+    }) {
+        const { q, role, status, volunteerType, hasDriverLicense, gender } = params || {};
+        const page = Math.max(1, Math.floor(params.page || 1));
+        const pageSize = Math.min(100, Math.max(1, Math.floor(params.pageSize || 20)));
+
+        const filter: any = {};
+        if (q) {
+            const rx = new RegExp(q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+            filter.$or = [{ fullName: rx }, { serviceNumber: rx }, { phone: rx }];
+        }
+        if (role) filter.role = role;
+        if (status === AccountStatus.Active) filter.status = { $in: [AccountStatus.Active, null] }; // Legacy accounts are active
+        else if (status) filter.status = status;
+        if (volunteerType) filter["volunteerData.volunteerType"] = volunteerType;
+        if (hasDriverLicense !== undefined) filter["volunteerData.hasDriverLicense"] = hasDriverLicense;
+        if (gender) filter.gender = gender;
+
+        const [items, total] = await Promise.all([
+            UserModel.find(filter)
+                .select("-password")
+                .sort({ fullName: 1 })
+                .skip((page - 1) * pageSize)
+                .limit(pageSize)
+                .lean<IUser[]>()
+                .exec(),
+            UserModel.countDocuments(filter).exec()
+        ]);
+        return { items, total, page, pageSize };
+    }
+
+    // A user's profile plus every shift they registered or waitlisted for, including rejected / cancelled ones (newest first)
+    public async getProfileWithShifts(userId: string) {
+        const user = await UserModel.findById(userId).select("-password").lean<IUser | null>().exec();
+        if (!user) return null;
+
+        const uid = new mongoose.Types.ObjectId(userId);
+        const shifts = await ShiftModel.find({ $or: [{ "registeredVolunteers.userId": uid }, { "waitlistVolunteers.userId": uid }, { "closedRegistrations.userId": uid }] })
+            .sort({ date: -1 })
+            .lean<IShift[]>()
+            .exec();
+
+        const history = shifts.map(shift => {
+            const registration = shiftService.registrationOf(shift, uid);
+            return {
+                shiftId: shift._id,
+                date: shift.date,
+                unit: shift.unit,
+                shiftType: shift.shiftType,
+                status: shift.status,
+                registrationStatus: registration.status,
+                reason: registration.reason,
+                waitlisted: registration.status === "waitlisted",
+                approved: registration.status === RegistrationStatus.Approved,
+                arrivalTime: registration.arrivalTime,
+                leavingTime: registration.leavingTime
+            };
+        });
+        return { user, shifts: history };
+    }
+
+    // Change a volunteer's stage
+    public async setVolunteerType(userId: string, volunteerType: VolunteerType, officerId: string): Promise<IUser | null> {
+        const user = await UserModel.findById(userId).exec();
+        if (!user) return null;
+        if (user.role !== UserRole.Volunteer) throw new ValidationError("Only volunteers have a volunteer type.");
+
+        const before = user.volunteerData?.volunteerType;
+        user.set("volunteerData.volunteerType", volunteerType);
+        await user.save();
+        if (before !== volunteerType) {
+            void auditService.record({
+                actor: auditService.byUser(officerId),
+                action: "user.volunteerType",
+                targetType: "user",
+                targetId: userId,
+                changes: [{ field: "volunteerData.volunteerType", before, after: volunteerType }]
+            });
+        }
+        return user;
+    }
+
+    // Record whether a volunteer holds a driver licence (counts toward shifts' driver requirements)
+    public async setDriverLicense(userId: string, hasDriverLicense: boolean, officerId: string): Promise<IUser | null> {
+        const user = await UserModel.findById(userId).exec();
+        if (!user) return null;
+        if (user.role !== UserRole.Volunteer) throw new ValidationError("Only volunteers have a driver licence record.");
 
-        // Generate and return JWT token
-        return cyber.generateToken(dbUser);
+        const before = user.volunteerData?.hasDriverLicense;
+        user.set("volunteerData.hasDriverLicense", hasDriverLicense);
+        await user.save();
+        if (before !== hasDriverLicense) {
+            void auditService.record({
+                actor: auditService.byUser(officerId),
+                action: "user.driverLicense",
+                targetType: "user",
+                targetId: userId,
+                changes: [{ field: "volunteerData.hasDriverLicense", before, after: hasDriverLicense }]
+            });
+        }
+        return user;
     }
 
-    // Login user and return a JWT token
-    public async login(email: string, password: string): Promise<string> {
+    // Users waiting for activation, oldest first
+    public listPending() {
+        return UserModel.find({ status: AccountStatus.Pending })
+            .select("-password")
+            .sort({ createdAt: 1 })
+            .lean<IUser[]>()
+            .exec();
+    }
+
+    // Change account status (activate / deactivate). Non-active accounts lose all sessions.
+    public async setStatus(userId: string, status: AccountStatus, officerId: string): Promise<IUser | null> {
+        const user = await UserModel.findById(userId).exec();
+        if (!user) return null;
+        if (user.status === status) return user;
+
+        const before = user.status;
+        user.status = status; // Schema hook bumps tokenVersion
+        await user.save();
+        void auditService.record({
+            actor: auditService.byUser(officerId),
+            action: "user.status",
+            targetType: "user",
+            targetId: userId,
+            changes: [{ field: "status", before, after: status }]
+        });
+        if (status !== AccountStatus.Active) await tokenService.revokeAll(String(user._id));
+        authUserService.invalidate(String(user._id));
+        return user;
+    }
+
+    // Login user and return access + refresh tokens
+    public async login(email: string, password: string): Promise<AuthTokens> {
         // Normalize email to match storage format
         const normalizedEmail = String(email).trim().toLowerCase();
 
@@ -28,12 +235,95 @@ class UserService {
         const user = await UserModel.findOne({ email: normalizedEmail }).exec();
         if (!user) throw new AuthorizationError("Incorrect email or password.");
 
-        // Hash the given password and compare to stored hash
-        const hashedPassword = cyber.hash(password);
-        if (user.password !== hashedPassword) throw new AuthorizationError("Incorrect email or password.");
+        // Verify the given password against the stored hash
+        const { valid, needsRehash } = await cyber.verifyPassword(password, user.password);
+        if (!valid) throw new AuthorizationError("Incorrect email or password.");
+
+        // Only active accounts may log in
+        assertActive(user);
+
+        // Upgrade legacy / outdated hashes transparently
+        if (needsRehash) {
+            user.password = await cyber.hash(password);
+            await UserModel.updateOne({ _id: user._id }, { password: user.password }).exec();
+        }
+
+        // Generate and return tokens
+        return tokenService.issue(user);
+    }
+
+    // Issue a single-use reset token and email it. Silent when the email is unknown (no account enumeration).
+    // Runs off the response path, so known and unknown emails take the same time to answer.
+    public requestPasswordReset(email: string): void {
+        const normalizedEmail = String(email).trim().toLowerCase();
+        this.issuePasswordReset(normalizedEmail).catch(err => console.log("Password reset failed:", err));
+    }
+
+    // Replace the account's reset token and email the link (nothing when there is no such account)
+    private async issuePasswordReset(normalizedEmail: string): Promise<void> {
+        const user = await UserModel.findOne({ email: normalizedEmail }).select("_id").exec();
+        if (!user) return;
+
+        // Only the latest link is valid
+        await PasswordResetModel.deleteMany({ userId: user._id }).exec();
+
+        const token = cyber.generateRandomToken();
+        const minutes = appConfig.passwordResetTokenMinutes;
+        await new PasswordResetModel({
+            userId: user._id,
+            tokenHash: cyber.hashToken(token),
+            expiresAt: new Date(Date.now() + minutes * 60 * 1000)
+        }).save();
+
+        const resetUrl = `${appConfig.frontendUrl}/reset-password?token=${token}`;
+        void notificationService.passwordReset(String(user._id), resetUrl, minutes);
+    }
+
+    // Return the user a valid (unused, unexpired) reset token belongs to
+    public async getPasswordResetUser(token: string): Promise<IUser> {
+        const reset = await PasswordResetModel.findOne({
+            tokenHash: cyber.hashToken(String(token)),
+            usedAt: { $exists: false },
+            expiresAt: { $gt: new Date() }
+        }).exec();
+        if (!reset) throw new ValidationError("Invalid or expired reset token.");
+
+        const user = await UserModel.findById(reset.userId).exec();
+        if (!user) throw new ValidationError("Invalid or expired reset token.");
+        return user;
+    }
+
+    // Consume the token (atomically, so it works once) and set the new password
+    public async resetPassword(token: string, newPassword: string): Promise<void> {
+        const reset = await PasswordResetModel.findOneAndUpdate(
+            { tokenHash: cyber.hashToken(String(token)), usedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+            { usedAt: new Date() },
+            { new: true }
+        ).exec();
+        if (!reset) throw new ValidationError("Invalid or expired reset token.");
+
+        const user = await UserModel.findById(reset.userId).exec();
+        if (!user) throw new ValidationError("Invalid or expired reset token.");
+
+        user.password = await cyber.hash(newPassword);
+        user.passwordChangedAt = new Date();
+        await user.save();
+        await PasswordResetModel.deleteMany({ userId: user._id, _id: { $ne: reset._id } }).exec();
+
+        // Sessions opened with the old password end here
+        await tokenService.revokeAll(String(user._id));
+        void auditService.record({ actor: auditService.byUser(reset.userId), action: "user.password", targetType: "user", targetId: reset.userId, details: { via: "reset" } });
+    }
 
-        // Generate and return JWT token
-        return cyber.generateToken(user);
+    // Audit a new account (self-registered or created by an officer). The password is never logged.
+    private auditCreated(user: IUser, actorId: string | mongoose.Types.ObjectId, action: "user.register" | "user.create") {
+        return auditService.record({
+            actor: auditService.byUser(actorId),
+            action,
+            targetType: "user",
+            targetId: user._id as mongoose.Types.ObjectId,
+            changes: auditService.diff({}, user.toObject(), ["fullName", "email", "phone", "role", "status", "serviceNumber", "volunteerData"])
+        });
     }
 }
 
@@ -0,0 +1,44 @@
+import express, { Request, Response, Router } from "express";
+import { StatusCode } from "../3-models/status-code";
+import { securityMiddleware } from "../6-middleware/security.middleware";
+import { requireRole } from "../6-middleware/roles.middleware";
+import { auditService } from "../4-services/audit-service";
+import { AuditSource, AuditTargetType } from "../3-models/audit-log-model";
+
+/**
+ * AuditController
+ * - Officer-only view of the audit log: who changed which shift / account, when, and what changed.
+ */
+class AuditController {
+    public router: Router = express.Router();
+
+    public constructor() {
+        this.router.get("/api/audit-logs", securityMiddleware.verifyToken, requireRole("officer"), this.list);
+    }
+
+    // Lists audit entries, newest first.
+    // Query: actorId, action (exact, or a prefix like "registration."), targetType, targetId, subjectId, source, from, to, page, pageSize
+    private async list(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const { actorId, action, targetType, targetId, subjectId, source, from, to, page, pageSize } = request.query as any;
+            const text = (value: any) => value ? String(value) : undefined;
+            const result = await auditService.query({
+                actorId: text(actorId),
+                action: text(action),
+                targetType: text(targetType) as AuditTargetType | undefined,
+                targetId: text(targetId),
+                subjectId: text(subjectId),
+                source: text(source) as AuditSource | undefined,
+                from: from ? new Date(from) : undefined,
+                to: to ? new Date(to) : undefined,
+                page: page ? Number(page) : undefined,
+                pageSize: pageSize ? Number(pageSize) : undefined
+            });
+            response.status(StatusCode.OK).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+}
+
+export const auditController = new AuditController();
@@ -0,0 +1,68 @@
+import express, { Request, Response, Router } from "express";
+import { StatusCode } from "../3-models/status-code";
+import { UserModel } from "../3-models/user-model";
+import { securityMiddleware } from "../6-middleware/security.middleware";
+import { requireRole } from "../6-middleware/roles.middleware";
+import { availabilityService } from "../4-services/availability-service";
+
+/**
+ * AvailabilityController
+ * - /api/me/availability: a volunteer's recurring availability (weekday x shift type), preferred units,
+ *   blackout dates and monthly shift limit. PUT replaces the whole declaration.
+ * - /api/users/:id/availability: the same, read-only, for officers.
+ * Candidate search for a shift lives in ShiftController (/api/shifts/:id/candidates).
+ */
+class AvailabilityController {
+    public router: Router = express.Router();
+
+    public constructor() {
+        this.router.get("/api/me/availability", securityMiddleware.verifyToken, requireRole("volunteer"), this.getMine);
+        this.router.put("/api/me/availability", securityMiddleware.verifyToken, requireRole("volunteer"), this.updateMine);
+        this.router.get("/api/users/:id/availability", securityMiddleware.verifyToken, requireRole("officer"), this.getOne);
+    }
+
+    // Returns the current volunteer's declaration
+    private async getMine(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const user = (request as any).user;
+            const availability = await availabilityService.getFor(user._id);
+            response.status(StatusCode.OK).json(availability);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Replaces the current volunteer's declaration. Body: { weekly, preferredUnits, blackoutDates, maxShiftsPerMonth }
+    private async updateMine(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const user = (request as any).user;
+            const { weekly, preferredUnits, blackoutDates, maxShiftsPerMonth } = request.body || {};
+            const availability = await availabilityService.update(user._id, {
+                weekly: Array.isArray(weekly) ? weekly.map((s: any) => ({ weekday: Number(s?.weekday), shiftType: s?.shiftType })) : weekly,
+                preferredUnits,
+                blackoutDates,
+                maxShiftsPerMonth: maxShiftsPerMonth === undefined || maxShiftsPerMonth === null || maxShiftsPerMonth === "" ? null : Number(maxShiftsPerMonth)
+            });
+            response.status(StatusCode.OK).json(availability);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Returns a user's declaration (officer)
+    private async getOne(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const exists = await UserModel.exists({ _id: request.params.id }).exec();
+            if (!exists) {
+                response.status(StatusCode.NotFound).json({ message: "User not found." });
+                return;
+            }
+            const availability = await availabilityService.getFor(request.params.id);
+            response.status(StatusCode.OK).json(availability);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+}
+
+export const availabilityController = new AvailabilityController();
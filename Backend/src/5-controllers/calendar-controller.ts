@@ -0,0 +1,66 @@
+import express, { Request, Response, Router } from "express";
+import { StatusCode } from "../3-models/status-code";
+import { securityMiddleware } from "../6-middleware/security.middleware";
+import { calendarService } from "../4-services/calendar-service";
+
+/**
+ * CalendarController
+ * - /api/me/calendar-feed: create (or replace) and revoke the current user's calendar link.
+ * - /api/calendar/<token>.ics: the feed itself. No login - the secret link is the credential,
+ *   so calendar apps can subscribe to it.
+ */
+class CalendarController {
+    public router: Router = express.Router();
+
+    public constructor() {
+        this.router.post("/api/me/calendar-feed", securityMiddleware.verifyToken, this.createFeed);
+        this.router.delete("/api/me/calendar-feed", securityMiddleware.verifyToken, this.revokeFeed);
+        this.router.get("/api/calendar/:file", this.feed);
+    }
+
+    // Creates a new feed link (any previous link stops working). The link is returned only here.
+    private async createFeed(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const user = (request as any).user;
+            const token = await calendarService.createFeed(user._id);
+            const url = `${request.protocol}://${request.get("host")}/api/calendar/${token}.ics`;
+            response.status(StatusCode.Created).json({ url, webcalUrl: url.replace(/^https?:/, "webcal:") });
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Disables the current user's feed link
+    private async revokeFeed(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const user = (request as any).user;
+            const revoked = await calendarService.revokeFeed(user._id);
+            if (!revoked) {
+                response.status(StatusCode.NotFound).json({ message: "No calendar feed." });
+                return;
+            }
+            response.status(StatusCode.NoContent).send();
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Serves the .ics feed for a secret link
+    private async feed(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const token = request.params.file.replace(/\.ics$/, "");
+            const ics = /^[0-9a-f]{64}$/.test(token) ? await calendarService.feedFor(token) : null;
+            if (!ics) {
+                response.status(StatusCode.NotFound).json({ message: "Calendar not found." });
+                return;
+            }
+            response.setHeader("Content-Type", "text/calendar; charset=utf-8");
+            response.setHeader("Cache-Control", "private, max-age=300");
+            response.send(ics);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+}
+
+export const calendarController = new CalendarController();
@@ -0,0 +1,94 @@
+import express, { Request, Response, Router } from "express";
+import { StatusCode } from "../3-models/status-code";
+import { Unit } from "../3-models/unit";
+import { securityMiddleware } from "../6-middleware/security.middleware";
+import { requireRole } from "../6-middleware/roles.middleware";
+import { HoursBasis, HoursGroup, reportService } from "../4-services/report-service";
+import { resolveDateRange } from "../2-utils/shift-time";
+
+/**
+ * ReportController
+ * - Officer-only volunteer hours reports for a period, as JSON, CSV or Excel.
+ * - Period: ?month=YYYY-MM or ?from=&to= (shift dates, at most MAX_RANGE_DAYS apart); optional unit; basis=actual (default, recorded attendance) | planned.
+ */
+
+const GROUPS: HoursGroup[] = ["volunteer", "unit", "shiftType", "volunteerType"];
+
+// Read and validate the report query (throws with a client-facing message)
+function reportParams(req: Request): { from: Date; to: Date; unit?: Unit; basis: HoursBasis } {
+    const { month, from, to, unit, basis = "actual" } = req.query as any;
+    if (basis !== "planned" && basis !== "actual") throw new Error("basis must be 'planned' or 'actual'.");
+    if (unit && !Object.values(Unit).includes(unit)) throw new Error("Unknown unit.");
+
+    if (month) {
+        const match = /^(\d{4})-(\d{2})$/.exec(String(month));
+        if (!match) throw new Error("month must be YYYY-MM.");
+        const year = Number(match[1]), index = Number(match[2]) - 1;
+        // Shift dates are calendar days at midnight UTC
+        return { from: new Date(Date.UTC(year, index, 1)), to: new Date(Date.UTC(year, index + 1, 0)), unit, basis };
+    }
+    if (!from || !to) throw new Error("month, or from and to, are required.");
+    // Capped like the other range endpoints: exports build the whole workbook in memory
+    return { ...resolveDateRange(from, to), unit, basis };
+}
+
+// File name stem for downloads, e.g. hours-2025-03-01_2025-03-31
+function fileStem(from: Date, to: Date): string {
+    return `hours-${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}`;
+}
+
+class ReportController {
+    public router: Router = express.Router();
+
+    public constructor() {
+        this.router.get("/api/reports/hours", securityMiddleware.verifyToken, requireRole("officer"), this.hours);
+        this.router.get("/api/reports/hours.csv", securityMiddleware.verifyToken, requireRole("officer"), this.hoursCsv);
+        this.router.get("/api/reports/hours.xlsx", securityMiddleware.verifyToken, requireRole("officer"), this.hoursXlsx);
+    }
+
+    // ===== Handlers =====
+
+    // Hours report as JSON (all groupings)
+    private async hours(req: Request, res: Response) {
+        try {
+            const report = await reportService.hours(reportParams(req));
+            res.json(report);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // One grouping as a CSV download. Query: groupBy=volunteer|unit|shiftType|volunteerType (default volunteer)
+    private async hoursCsv(req: Request, res: Response) {
+        try {
+            const groupBy = String(req.query.groupBy ?? "volunteer") as HoursGroup;
+            if (!GROUPS.includes(groupBy)) {
+                res.status(StatusCode.BadRequest).json({ message: `groupBy must be one of: ${GROUPS.join(", ")}.` });
+                return;
+            }
+            const params = reportParams(req);
+            const report = await reportService.hours(params);
+            res.setHeader("Content-Type", "text/csv; charset=utf-8");
+            res.setHeader("Content-Disposition", `attachment; filename="${fileStem(params.from, params.to)}-${groupBy}.csv"`);
+            res.send(reportService.toCsv(report, groupBy));
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Excel workbook download with every grouping
+    private async hoursXlsx(req: Request, res: Response) {
+        try {
+            const params = reportParams(req);
+            const report = await reportService.hours(params);
+            const file = await reportService.toXlsx(report);
+            res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+            res.setHeader("Content-Disposition", `attachment; filename="${fileStem(params.from, params.to)}.xlsx"`);
+            res.send(file);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+}
+
+export const reportController = new ReportController();
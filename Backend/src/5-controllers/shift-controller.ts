@@ -1,15 +1,31 @@
 import express, { Request, Response, Router } from "express";
+import mongoose from "mongoose";
 import { StatusCode } from "../3-models/status-code";
 import { securityMiddleware } from "../6-middleware/security.middleware";
 import { requireRole } from "../6-middleware/roles.middleware";
-import { shiftService } from "../4-services/shift-service";
-import { ShiftModel } from "../3-models/shift-model";
+import { ReviewStatus, shiftService } from "../4-services/shift-service";
+import { conflictService } from "../4-services/conflict-service";
+import { shiftViewService } from "../4-services/shift-view-service";
+import { attendanceService } from "../4-services/attendance-service";
+import { availabilityService } from "../4-services/availability-service";
+import { IShift, ShiftAction, ShiftModel } from "../3-models/shift-model";
+import { HHMM } from "../2-utils/shift-time";
+import { appConfig } from "../2-utils/app-config";
+import { profileImageUrl } from "../2-utils/profile-image";
+import { RegistrationStatus } from "../3-models/registration-status";
+import { UserRole } from "../3-models/role";
 
 /**
  * ShiftController
  * - Registers routes for shift CRUD, volunteer actions and officer utilities.
  * - Uses securityMiddleware.verifyToken to attach user info on req.
+ * - Shifts sent to volunteers go through shiftViewService (no officer notes or other volunteers' details).
  */
+
+// Shape shift data for the requesting user's role
+function present(req: Request, shifts: IShift | IShift[]) {
+    return shiftViewService.present(shifts, (req as any).user, rel => profileImageUrl(req, rel));
+}
 class ShiftController {
     public router: Router = express.Router();
 
@@ -17,17 +33,39 @@ class ShiftController {
         // Officer CRUD (create / update / delete)
         this.router.post("/api/shifts", securityMiddleware.verifyToken, requireRole("officer"), this.create);
         this.router.put("/api/shifts/:id", securityMiddleware.verifyToken, requireRole("officer"), this.update);
+        this.router.delete("/api/shifts/:id", securityMiddleware.verifyToken, requireRole("officer"), this.remove);
+        // Lifecycle (officer): publish / lock / reopen / cancel
+        this.router.post("/api/shifts/:id/publish", securityMiddleware.verifyToken, requireRole("officer"), this.transition("publish"));
+        this.router.post("/api/shifts/:id/lock", securityMiddleware.verifyToken, requireRole("officer"), this.transition("lock"));
+        this.router.post("/api/shifts/:id/reopen", securityMiddleware.verifyToken, requireRole("officer"), this.transition("reopen"));
+        this.router.post("/api/shifts/:id/cancel", securityMiddleware.verifyToken, requireRole("officer"), this.transition("cancel"));
         // Read endpoints (authenticated)
+        this.router.get("/api/shift-types", securityMiddleware.verifyToken, this.listShiftTypes);
+        this.router.get("/api/shifts/conflicts", securityMiddleware.verifyToken, requireRole("officer"), this.listConflicts);
+        this.router.get("/api/shifts/dashboard", securityMiddleware.verifyToken, requireRole("officer"), this.dashboard);
         this.router.get("/api/shifts", securityMiddleware.verifyToken, this.list);
+        this.router.get("/api/me/shifts", securityMiddleware.verifyToken, requireRole("volunteer", "officer"), this.myShifts);
         this.router.get("/api/shifts/:id", securityMiddleware.verifyToken, this.getOne);
 
         // Volunteer actions (register / unregister)
         this.router.post("/api/shifts/:id/register", securityMiddleware.verifyToken, requireRole("volunteer", "officer"), this.register);
         this.router.post("/api/shifts/:id/unregister", securityMiddleware.verifyToken, requireRole("volunteer", "officer"), this.unregister);
+        this.router.post("/api/shifts/:id/offer/accept", securityMiddleware.verifyToken, requireRole("volunteer", "officer"), this.acceptOffer);
+        this.router.post("/api/shifts/:id/offer/decline", securityMiddleware.verifyToken, requireRole("volunteer", "officer"), this.declineOffer);
+        this.router.get("/api/shifts/:id/my-registration", securityMiddleware.verifyToken, requireRole("volunteer", "officer"), this.myRegistration);
+        this.router.post("/api/shifts/:id/check-in", securityMiddleware.verifyToken, requireRole("volunteer", "officer"), this.checkIn);
+        this.router.post("/api/shifts/:id/check-out", securityMiddleware.verifyToken, requireRole("volunteer", "officer"), this.checkOut);
 
-        // Officer actions: approve volunteer and get status indicator
+        // Officer actions: review registrations and get status indicator
         this.router.post("/api/shifts/:id/approve/:volunteerId", securityMiddleware.verifyToken, requireRole("officer"), this.approve);
+        this.router.post("/api/shifts/:id/reject/:volunteerId", securityMiddleware.verifyToken, requireRole("officer"), this.reject);
+        this.router.post("/api/shifts/:id/review", securityMiddleware.verifyToken, requireRole("officer"), this.review);
         this.router.get("/api/shifts/:id/status-indicator", securityMiddleware.verifyToken, requireRole("officer"), this.statusIndicator);
+        this.router.get("/api/shifts/:id/candidates", securityMiddleware.verifyToken, requireRole("officer"), this.candidates);
+
+        // Officer attendance: record / confirm times, mark no-shows
+        this.router.put("/api/shifts/:id/attendance/:volunteerId", securityMiddleware.verifyToken, requireRole("officer"), this.confirmAttendance);
+        this.router.post("/api/shifts/:id/no-show/:volunteerId", securityMiddleware.verifyToken, requireRole("officer"), this.markNoShow);
     }
 
     // ===== Handlers =====
@@ -35,7 +73,8 @@ class ShiftController {
     // Create a new shift (officer)
     private async create(req: Request, res: Response) {
         try {
-            const saved = await shiftService.create(req.body);
+            const officer = (req as any).user;
+            const saved = await shiftService.create(req.body, officer._id);
             res.status(StatusCode.Created).json(saved);
         } catch (err: any) {
             res.status(StatusCode.BadRequest).json({ message: err.message });
@@ -45,7 +84,8 @@ class ShiftController {
     // Update existing shift by id (officer)
     private async update(req: Request, res: Response) {
         try {
-            const s = await shiftService.update(req.params.id, req.body);
+            const officer = (req as any).user;
+            const s = await shiftService.update(req.params.id, req.body, officer._id);
             if (!s) {
                 res.status(StatusCode.NotFound).json({ message: "Shift not found" });
                 return;
@@ -55,17 +95,113 @@ class ShiftController {
             res.status(StatusCode.BadRequest).json({ message: err.message });
         }
     }
-    // List shifts with optional filters: unit, shiftType, date range, status
+    // Lifecycle transition handler for the given action. Body (optional): { reason }
+    private transition(action: ShiftAction) {
+        return async (req: Request, res: Response) => {
+            try {
+                const officer = (req as any).user;
+                const exists = await ShiftModel.exists({ _id: req.params.id });
+                if (!exists) {
+                    res.status(StatusCode.NotFound).json({ message: "Shift not found" });
+                    return;
+                }
+                const shift = await shiftService.transition(req.params.id, action, { source: "officer", userId: officer._id }, req.body?.reason);
+                res.json(shift);
+            } catch (err: any) {
+                res.status(StatusCode.BadRequest).json({ message: err.message });
+            }
+        };
+    }
+
+    // Delete a shift nobody registered for (officer). Shifts with registrations must be cancelled instead.
+    private async remove(req: Request, res: Response) {
+        try {
+            const officer = (req as any).user;
+            const result = await shiftService.remove(req.params.id, officer._id);
+            if (result === "not-found") {
+                res.status(StatusCode.NotFound).json({ message: "Shift not found" });
+                return;
+            }
+            if (result === "has-registrations") {
+                res.status(StatusCode.Conflict).json({ message: "Shift has registrations; cancel it instead" });
+                return;
+            }
+            res.status(StatusCode.NoContent).send();
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // List shifts with optional filters: unit, shiftType, date range, status (cancelled shifts: officers only)
     private async list(req: Request, res: Response) {
         try {
+            const user = (req as any).user;
             const { unit, shiftType, from, to, status } = req.query as any;
             const data = await shiftService.listByRange({
                 unit,
                 shiftType,
                 status,
+                includeCancelled: user.role === UserRole.Officer,
                 from: from ? new Date(from) : undefined,
                 to: to ? new Date(to) : undefined
             });
+            res.json(await present(req, data));
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Current user's own shifts (main list + waitlist). Query: when=upcoming|past (default upcoming), limit
+    private async myShifts(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const when = String(req.query.when ?? "upcoming");
+            if (when !== "upcoming" && when !== "past") {
+                res.status(StatusCode.BadRequest).json({ message: "when must be 'upcoming' or 'past'." });
+                return;
+            }
+            const data = await shiftService.listForUser(user._id, {
+                when,
+                limit: req.query.limit ? Number(req.query.limit) : undefined
+            });
+            res.json(data);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Shift types with their canonical windows and the registration grace margin
+    private async listShiftTypes(req: Request, res: Response) {
+        res.json({
+            graceMinutes: appConfig.shiftWindowGraceMinutes,
+            types: shiftService.listShiftTypes()
+        });
+    }
+
+    // Schedule conflicts (overlaps / too little rest) between volunteers' shifts. Query: from, to (required, at most MAX_RANGE_DAYS apart), unit
+    private async listConflicts(req: Request, res: Response) {
+        try {
+            const { from, to, unit } = req.query as any;
+            if (!from || !to) {
+                res.status(StatusCode.BadRequest).json({ message: "from and to are required." });
+                return;
+            }
+            const data = await conflictService.listAll({ from: new Date(from), to: new Date(to), unit });
+            res.json(data);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Status indicators for all shifts in a range (officer calendar). Query: from, to (required), unit
+    private async dashboard(req: Request, res: Response) {
+        try {
+            const { from, to, unit } = req.query as any;
+            if (!from || !to) {
+                res.status(StatusCode.BadRequest).json({ message: "from and to are required." });
+                return;
+            }
+            const data = await shiftService.dashboard({ from: new Date(from), to: new Date(to), unit });
             res.json(data);
         } catch (err: any) {
             res.status(StatusCode.BadRequest).json({ message: err.message });
@@ -80,47 +216,41 @@ class ShiftController {
                 res.status(StatusCode.NotFound).json({ message: "Shift not found" });
                 return;
             }
-            res.json(s);
+            res.json(await present(req, s));
         } catch (err: any) {
             res.status(StatusCode.BadRequest).json({ message: err.message });
         }
     }
 
-    // Register current user to shift (volunteer). Body requires volunteerType, arrivalTime, leavingTime.
+    // Register current user to shift (volunteer). Body requires arrivalTime, leavingTime; the volunteer type comes from the profile.
     private async register(req: Request, res: Response) {
         try {
             const user = (req as any).user;
-            const { volunteerType, arrivalTime, leavingTime, note } = req.body;
+            const { arrivalTime, leavingTime, note } = req.body;
 
-            if (!volunteerType || !arrivalTime || !leavingTime) {
-                res.status(StatusCode.BadRequest).json({ message: "volunteerType, arrivalTime and leavingTime are required." });
+            if (!arrivalTime || !leavingTime) {
+                res.status(StatusCode.BadRequest).json({ message: "arrivalTime and leavingTime are required." });
                 return;
             }
 
-            // Prevents “08:00–07:00” or bad formats from slipping in:
-            const hhmm = /^([01]\d|2[0-3]):[0-5]\d$/;
-            if (!hhmm.test(arrivalTime) || !hhmm.test(leavingTime)) {
+            // Prevents bad formats from slipping in (range order is checked against the shift date/type in the service):
+            if (!HHMM.test(arrivalTime) || !HHMM.test(leavingTime)) {
                 res.status(400).json({ message: "arrivalTime/leavingTime must be HH:MM" });
                 return;
             }
-            if (arrivalTime >= leavingTime) {
-                res.status(400).json({ message: "leavingTime must be after arrivalTime" });
-                return;
-            }
 
 
             const result = await shiftService.register({
                 shiftId: req.params.id,
                 userId: user._id,
-                volunteerType,
                 arrivalTime,
                 leavingTime,
                 note
             });
 
-            res.status(StatusCode.OK).json(result);
+            res.status(StatusCode.OK).json(await present(req, result));
         } catch (err: any) {
-            res.status(StatusCode.BadRequest).json({ message: err.message });
+            res.status(err.status || StatusCode.BadRequest).json({ message: err.message, conflicts: err.conflicts });
         }
     }
 
@@ -129,24 +259,161 @@ class ShiftController {
         try {
             const user = (req as any).user;
             const result = await shiftService.unregister(req.params.id, user._id);
-            res.status(StatusCode.OK).json(result);
+            res.status(StatusCode.OK).json(await present(req, result));
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Accept a waitlist promotion offer. Body (optional): arrivalTime, leavingTime, note - defaults to the waitlist request.
+    private async acceptOffer(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const { arrivalTime, leavingTime, note } = req.body || {};
+            const result = await shiftService.acceptOffer(req.params.id, user._id, { arrivalTime, leavingTime, note });
+            res.status(StatusCode.OK).json(await present(req, result));
+        } catch (err: any) {
+            res.status(err.status || StatusCode.BadRequest).json({ message: err.message, conflicts: err.conflicts });
+        }
+    }
+
+    // Decline a waitlist promotion offer (leaves the waitlist)
+    private async declineOffer(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const result = await shiftService.declineOffer(req.params.id, user._id);
+            res.status(StatusCode.OK).json(await present(req, result));
         } catch (err: any) {
             res.status(StatusCode.BadRequest).json({ message: err.message });
         }
     }
 
     // Approve/un-approve a volunteer in the main list (officer).
-    // Query param: ?approve=true|false
+    // Query param: ?approve=true|false. Body (optional): { reason }
     private async approve(req: Request, res: Response) {
         try {
+            const officer = (req as any).user;
             const approve = String(req.query.approve ?? "true") === "true";
-            const shift = await shiftService.approve(req.params.id, req.params.volunteerId, approve);
+            const { shift } = await shiftService.review({
+                shiftId: req.params.id,
+                officerId: officer._id,
+                status: approve ? RegistrationStatus.Approved : RegistrationStatus.Pending,
+                volunteerIds: [req.params.volunteerId],
+                reason: req.body?.reason
+            });
             res.json(shift);
         } catch (err: any) {
             res.status(StatusCode.BadRequest).json({ message: err.message });
         }
     }
 
+    // Reject a volunteer's registration (officer). Body (optional): { reason }
+    private async reject(req: Request, res: Response) {
+        try {
+            const officer = (req as any).user;
+            const { shift } = await shiftService.review({
+                shiftId: req.params.id,
+                officerId: officer._id,
+                status: RegistrationStatus.Rejected,
+                volunteerIds: [req.params.volunteerId],
+                reason: req.body?.reason
+            });
+            res.json(shift);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Bulk review (officer). Body: { status: "approved" | "rejected" | "pending", volunteerIds?, reason? }
+    // Without volunteerIds, all pending registrations of the shift are reviewed.
+    private async review(req: Request, res: Response) {
+        try {
+            const officer = (req as any).user;
+            const { status, volunteerIds, reason } = req.body;
+            const allowed: ReviewStatus[] = [RegistrationStatus.Approved, RegistrationStatus.Rejected, RegistrationStatus.Pending];
+            if (!allowed.includes(status)) {
+                res.status(StatusCode.BadRequest).json({ message: "status must be 'approved', 'rejected' or 'pending'." });
+                return;
+            }
+            if (volunteerIds !== undefined && (!Array.isArray(volunteerIds) || !volunteerIds.every(id => mongoose.isValidObjectId(id)))) {
+                res.status(StatusCode.BadRequest).json({ message: "volunteerIds must be a list of user ids." });
+                return;
+            }
+            const result = await shiftService.review({ shiftId: req.params.id, officerId: officer._id, status, volunteerIds, reason });
+            res.json(result);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Current user's registration state on a shift: status, officer's reason, waitlist position
+    private async myRegistration(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const result = await shiftService.getRegistration(req.params.id, user._id);
+            if (!result) {
+                res.status(StatusCode.NotFound).json({ message: "Shift not found" });
+                return;
+            }
+            res.json(result);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Check in to a shift now (current user, approved registration)
+    private async checkIn(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const result = await attendanceService.checkIn(req.params.id, user._id);
+            res.status(StatusCode.OK).json(await present(req, result));
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Check out of a shift now (current user)
+    private async checkOut(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const result = await attendanceService.checkOut(req.params.id, user._id);
+            res.status(StatusCode.OK).json(await present(req, result));
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Record or confirm a volunteer's actual times (officer). Body: { checkedInAt?, checkedOutAt? } (ISO date-times)
+    private async confirmAttendance(req: Request, res: Response) {
+        try {
+            const officer = (req as any).user;
+            const { checkedInAt, checkedOutAt } = req.body || {};
+            const times = {
+                checkedInAt: checkedInAt ? new Date(checkedInAt) : undefined,
+                checkedOutAt: checkedOutAt ? new Date(checkedOutAt) : undefined
+            };
+            if ((times.checkedInAt && isNaN(times.checkedInAt.getTime())) || (times.checkedOutAt && isNaN(times.checkedOutAt.getTime()))) {
+                res.status(StatusCode.BadRequest).json({ message: "checkedInAt/checkedOutAt must be valid date-times" });
+                return;
+            }
+            const result = await attendanceService.confirm(req.params.id, req.params.volunteerId, officer._id, times);
+            res.json(result);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Mark a volunteer as a no-show after the shift (officer)
+    private async markNoShow(req: Request, res: Response) {
+        try {
+            const officer = (req as any).user;
+            const result = await attendanceService.markNoShow(req.params.id, req.params.volunteerId, officer._id);
+            res.json(result);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
     // Get status indicator for officer home screen (color + pending flag)
     private async statusIndicator(req: Request, res: Response) {
         try {
@@ -161,6 +428,22 @@ class ShiftController {
             res.status(StatusCode.BadRequest).json({ message: err.message });
         }
     }
+
+    // Ranked volunteers who could still fill the shift: available, qualified, not yet on it (officer). Query: limit
+    private async candidates(req: Request, res: Response) {
+        try {
+            const limit = req.query.limit ? Number(req.query.limit) : undefined;
+            const result = await availabilityService.candidatesFor(req.params.id, { limit });
+            if (!result) {
+                res.status(StatusCode.NotFound).json({ message: "Shift not found" });
+                return;
+            }
+            const candidates = result.candidates.map(({ profileImage, ...c }) => ({ ...c, profileImageUrl: profileImageUrl(req, profileImage) }));
+            res.json({ ...result, candidates });
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
 }
 
 export const shiftController = new ShiftController();
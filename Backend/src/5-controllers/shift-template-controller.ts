@@ -0,0 +1,120 @@
+import express, { Request, Response, Router } from "express";
+import { StatusCode } from "../3-models/status-code";
+import { securityMiddleware } from "../6-middleware/security.middleware";
+import { requireRole } from "../6-middleware/roles.middleware";
+import { shiftTemplateService } from "../4-services/shift-template-service";
+
+/**
+ * ShiftTemplateController
+ * - Officer-only routes for recurring shift templates.
+ * - /generate turns a template into concrete shifts for a date range (?dryRun to preview).
+ */
+class ShiftTemplateController {
+    public router: Router = express.Router();
+
+    public constructor() {
+        // Officer CRUD
+        this.router.get("/api/shift-templates", securityMiddleware.verifyToken, requireRole("officer"), this.list);
+        this.router.get("/api/shift-templates/:id", securityMiddleware.verifyToken, requireRole("officer"), this.getOne);
+        this.router.post("/api/shift-templates", securityMiddleware.verifyToken, requireRole("officer"), this.create);
+        this.router.put("/api/shift-templates/:id", securityMiddleware.verifyToken, requireRole("officer"), this.update);
+        this.router.delete("/api/shift-templates/:id", securityMiddleware.verifyToken, requireRole("officer"), this.remove);
+
+        // Bulk schedule generation
+        this.router.post("/api/shift-templates/:id/generate", securityMiddleware.verifyToken, requireRole("officer"), this.generate);
+    }
+
+    // ===== Handlers =====
+
+    // List templates with optional filters: unit, active
+    private async list(req: Request, res: Response) {
+        try {
+            const { unit, active } = req.query as any;
+            const data = await shiftTemplateService.list({
+                unit,
+                active: active === undefined ? undefined : String(active) === "true"
+            });
+            res.json(data);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Get single template by id
+    private async getOne(req: Request, res: Response) {
+        try {
+            const t = await shiftTemplateService.getOne(req.params.id);
+            if (!t) {
+                res.status(StatusCode.NotFound).json({ message: "Template not found" });
+                return;
+            }
+            res.json(t);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Create a new template
+    private async create(req: Request, res: Response) {
+        try {
+            const saved = await shiftTemplateService.create(req.body);
+            res.status(StatusCode.Created).json(saved);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Update existing template by id
+    private async update(req: Request, res: Response) {
+        try {
+            const t = await shiftTemplateService.update(req.params.id, req.body);
+            if (!t) {
+                res.status(StatusCode.NotFound).json({ message: "Template not found" });
+                return;
+            }
+            res.json(t);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Delete template by id (generated shifts stay)
+    private async remove(req: Request, res: Response) {
+        try {
+            const t = await shiftTemplateService.remove(req.params.id);
+            if (!t) {
+                res.status(StatusCode.NotFound).json({ message: "Template not found" });
+                return;
+            }
+            res.status(StatusCode.NoContent).send();
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+
+    // Generate shifts for a date range. Body: { from, to, dryRun? }
+    private async generate(req: Request, res: Response) {
+        try {
+            const { from, to } = req.body;
+            if (!from || !to) {
+                res.status(StatusCode.BadRequest).json({ message: "from and to are required." });
+                return;
+            }
+            const dryRun = String(req.body.dryRun ?? req.query.dryRun ?? "false") === "true";
+
+            const officer = (req as any).user;
+            const result = await shiftTemplateService.generate({
+                templateId: req.params.id,
+                officerId: officer._id,
+                from: new Date(from),
+                to: new Date(to),
+                dryRun
+            });
+            res.status(dryRun ? StatusCode.OK : StatusCode.Created).json(result);
+        } catch (err: any) {
+            res.status(StatusCode.BadRequest).json({ message: err.message });
+        }
+    }
+}
+
+export const shiftTemplateController = new ShiftTemplateController();
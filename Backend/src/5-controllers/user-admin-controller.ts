@@ -0,0 +1,283 @@
+import express, { Request, Response, Router } from "express";
+import { UserModel } from "../3-models/user-model";
+import { UserRole } from "../3-models/role";
+import { AccountStatus } from "../3-models/account-status";
+import { StatusCode } from "../3-models/status-code";
+import { userService } from "../4-services/user-service";
+import { inviteService } from "../4-services/invite-service";
+import { attendanceService } from "../4-services/attendance-service";
+import { securityMiddleware } from "../6-middleware/security.middleware";
+import { requireRole } from "../6-middleware/roles.middleware";
+import { cyber } from "../2-utils/cyber";
+import { checkPasswordStrength } from "../2-utils/password";
+import { getDefaultImageByGender, profileImageUrl } from "../2-utils/profile-image";
+import { VolunteerType } from "../3-models/volunteer-type";
+
+/**
+ * UserAdminController
+ * - Officer-only account provisioning: invite codes, direct account creation, activation of pending volunteers.
+ * - User administration: search/filter/paginate, profile with shift history, attendance record, deactivate/reactivate, volunteer type, driver licence.
+ * - Password hashes are never returned.
+ */
+class UserAdminController {
+    public router: Router = express.Router();
+
+    public constructor() {
+        // Invite codes
+        this.router.post("/api/invites", securityMiddleware.verifyToken, requireRole("officer"), this.createInvite);
+        this.router.get("/api/invites", securityMiddleware.verifyToken, requireRole("officer"), this.listInvites);
+        this.router.delete("/api/invites/:id", securityMiddleware.verifyToken, requireRole("officer"), this.revokeInvite);
+
+        // Accounts
+        this.router.post("/api/users", securityMiddleware.verifyToken, requireRole("officer"), this.createUser);
+        this.router.get("/api/users", securityMiddleware.verifyToken, requireRole("officer"), this.list);
+        this.router.get("/api/users/pending", securityMiddleware.verifyToken, requireRole("officer"), this.listPending);
+        this.router.get("/api/users/:id", securityMiddleware.verifyToken, requireRole("officer"), this.getOne);
+        this.router.get("/api/users/:id/attendance", securityMiddleware.verifyToken, requireRole("officer"), this.attendance);
+        this.router.post("/api/users/:id/activate", securityMiddleware.verifyToken, requireRole("officer"), this.activate);
+        this.router.post("/api/users/:id/reactivate", securityMiddleware.verifyToken, requireRole("officer"), this.activate);
+        this.router.post("/api/users/:id/deactivate", securityMiddleware.verifyToken, requireRole("officer"), this.deactivate);
+        this.router.put("/api/users/:id/volunteer-type", securityMiddleware.verifyToken, requireRole("officer"), this.setVolunteerType);
+        this.router.put("/api/users/:id/driver-license", securityMiddleware.verifyToken, requireRole("officer"), this.setDriverLicense);
+    }
+
+    // Creates an invite code. Body: { role, email?, expiresInDays? }. The code is returned only here.
+    private async createInvite(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const officer = (request as any).user;
+            const { role, email, expiresInDays } = request.body;
+
+            if (!Object.values(UserRole).includes(role)) {
+                response.status(StatusCode.BadRequest).json({ message: "role must be 'volunteer' or 'officer'." });
+                return;
+            }
+            if (expiresInDays !== undefined && !(Number(expiresInDays) > 0 && Number(expiresInDays) <= 30)) {
+                response.status(StatusCode.BadRequest).json({ message: "expiresInDays must be between 1 and 30." });
+                return;
+            }
+
+            const invite = await inviteService.create({
+                role,
+                createdBy: officer._id,
+                email: email ? String(email).trim().toLowerCase() : undefined,
+                expiresInDays: expiresInDays !== undefined ? Number(expiresInDays) : undefined
+            });
+            response.status(StatusCode.Created).json(invite);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Lists open invites (?includeUsed=true for all)
+    private async listInvites(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const includeUsed = String(request.query.includeUsed ?? "false") === "true";
+            const invites = await inviteService.list({ includeUsed });
+            response.status(StatusCode.OK).json(invites);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Deletes an unused invite
+    private async revokeInvite(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const invite = await inviteService.revoke(request.params.id);
+            if (!invite) {
+                response.status(StatusCode.NotFound).json({ message: "Invite not found or already used." });
+                return;
+            }
+            response.status(StatusCode.NoContent).send();
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Creates an active account (any role). Without a password the user gets an email link to set one.
+    private async createUser(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const userData: any = { ...request.body };
+            delete userData.status;
+            delete userData.tokenVersion;
+
+            if (userData.email) userData.email = String(userData.email).trim().toLowerCase();
+            if (userData.fullName) userData.fullName = String(userData.fullName).trim();
+            if (userData.volunteerData && typeof userData.volunteerData === "string") {
+                userData.volunteerData = JSON.parse(userData.volunteerData);
+            }
+
+            if (!userData.email) {
+                response.status(StatusCode.BadRequest).json({ message: "Email is required." });
+                return;
+            }
+
+            const hasPassword = !!userData.password;
+            if (hasPassword) {
+                const strength = checkPasswordStrength(userData.password, userData.email, userData.fullName);
+                if (!strength.ok) {
+                    response.status(StatusCode.BadRequest).json({ message: "Weak password.", reasons: strength.reasons });
+                    return;
+                }
+                userData.password = await cyber.hash(userData.password);
+            }
+            userData.profileImage = getDefaultImageByGender(userData.gender);
+
+            const officer = (request as any).user;
+            const user = await userService.createByOfficer(new UserModel(userData), hasPassword, officer._id);
+            const result = user.toObject();
+            delete (result as any).password;
+            response.status(StatusCode.Created).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Lists users. Query: q, role, status, volunteerType, hasDriverLicense, gender, page, pageSize
+    private async list(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const { q, role, status, volunteerType, hasDriverLicense, gender, page, pageSize } = request.query as any;
+            const result = await userService.search({
+                q: q ? String(q).trim() : undefined,
+                role,
+                status,
+                volunteerType,
+                hasDriverLicense: hasDriverLicense === undefined ? undefined : String(hasDriverLicense) === "true",
+                gender,
+                page: page ? Number(page) : undefined,
+                pageSize: pageSize ? Number(pageSize) : undefined
+            });
+            result.items.forEach(u => (u as any).profileImageUrl = profileImageUrl(request, u.profileImage));
+            response.status(StatusCode.OK).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Returns a user's profile with their shift history
+    private async getOne(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const result = await userService.getProfileWithShifts(request.params.id);
+            if (!result) {
+                response.status(StatusCode.NotFound).json({ message: "User not found." });
+                return;
+            }
+            (result.user as any).profileImageUrl = profileImageUrl(request, result.user.profileImage);
+            response.status(StatusCode.OK).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // A volunteer's attendance on past shifts: no-shows, late arrivals, worked hours. Query: from, to
+    private async attendance(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const exists = await UserModel.exists({ _id: request.params.id }).exec();
+            if (!exists) {
+                response.status(StatusCode.NotFound).json({ message: "User not found." });
+                return;
+            }
+            const { from, to } = request.query as any;
+            const result = await attendanceService.historyFor(request.params.id, {
+                from: from ? new Date(from) : undefined,
+                to: to ? new Date(to) : undefined
+            });
+            response.status(StatusCode.OK).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Deactivates an account: blocks login and ends all its sessions
+    private async deactivate(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const officer = (request as any).user;
+            if (officer._id === request.params.id) {
+                response.status(StatusCode.BadRequest).json({ message: "You cannot deactivate your own account." });
+                return;
+            }
+            const user = await userService.setStatus(request.params.id, AccountStatus.Deactivated, officer._id);
+            if (!user) {
+                response.status(StatusCode.NotFound).json({ message: "User not found." });
+                return;
+            }
+            const result = user.toObject();
+            delete (result as any).password;
+            response.status(StatusCode.OK).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Changes a volunteer's stage. Body: { volunteerType }
+    private async setVolunteerType(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const officer = (request as any).user;
+            const { volunteerType } = request.body;
+            if (!Object.values(VolunteerType).includes(volunteerType)) {
+                response.status(StatusCode.BadRequest).json({ message: "volunteerType must be 'שלב א' or 'שלב ב'." });
+                return;
+            }
+            const user = await userService.setVolunteerType(request.params.id, volunteerType, officer._id);
+            if (!user) {
+                response.status(StatusCode.NotFound).json({ message: "User not found." });
+                return;
+            }
+            const result = user.toObject();
+            delete (result as any).password;
+            response.status(StatusCode.OK).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Records whether a volunteer holds a driver licence. Body: { hasDriverLicense }
+    private async setDriverLicense(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const officer = (request as any).user;
+            const { hasDriverLicense } = request.body;
+            if (typeof hasDriverLicense !== "boolean") {
+                response.status(StatusCode.BadRequest).json({ message: "hasDriverLicense must be true or false." });
+                return;
+            }
+            const user = await userService.setDriverLicense(request.params.id, hasDriverLicense, officer._id);
+            if (!user) {
+                response.status(StatusCode.NotFound).json({ message: "User not found." });
+                return;
+            }
+            const result = user.toObject();
+            delete (result as any).password;
+            response.status(StatusCode.OK).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Lists self-registered accounts waiting for activation
+    private async listPending(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const users = await userService.listPending();
+            response.status(StatusCode.OK).json(users);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Activates a pending account / reactivates a deactivated one
+    private async activate(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const officer = (request as any).user;
+            const user = await userService.setStatus(request.params.id, AccountStatus.Active, officer._id);
+            if (!user) {
+                response.status(StatusCode.NotFound).json({ message: "User not found." });
+                return;
+            }
+            const result = user.toObject();
+            delete (result as any).password;
+            response.status(StatusCode.OK).json(result);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+}
+
+export const userAdminController = new UserAdminController();
@@ -7,26 +7,17 @@ import { userService } from "../4-services/user-service";
 import { StatusCode } from "../3-models/status-code";
 import { securityMiddleware } from "../6-middleware/security.middleware";
 import { cyber } from "../2-utils/cyber";
-import fs from "fs";
 import { checkPasswordStrength } from "../2-utils/password";
+import { tokenService } from "../4-services/token-service";
+import { calendarService } from "../4-services/calendar-service";
+import { authUserService } from "../4-services/auth-user-service";
+import { auditService } from "../4-services/audit-service";
+import { getDefaultImageByGender, safeDeleteProfileImageIfPersonal } from "../2-utils/profile-image";
 
-// Default profile images (relative to 1-assets/)
-const DEFAULT_MALE_IMAGE = "default-profile-pics/male-user-default-pic.webp";
-const DEFAULT_FEMALE_IMAGE = "default-profile-pics/female-user-default-pic.webp";
-
-// Returns the default profile image path for a given gender
-function getDefaultImageByGender(gender: string): string {
-    return gender?.toLowerCase() === "female" ? DEFAULT_FEMALE_IMAGE : DEFAULT_MALE_IMAGE;
-}
-
-// Deletes a user-specific profile image from disk if it exists in the profile-pics directory. Shared default images are never deleted.
-function safeDeleteProfileImageIfPersonal(relativePath?: string): void {
-    if (!relativePath) return;
-    if (relativePath.startsWith("profile-pics/")) {
-        const absolute = path.join(__dirname, "..", "1-assets", relativePath);
-        if (fs.existsSync(absolute)) fs.unlinkSync(absolute);
-    }
-}
+// Profile fields a user can change themselves (compared for the audit log, with the uploaded image)
+// (volunteer type and driver licence are set by officers: they decide which slots a volunteer may take;
+// profileImage is only set by an upload)
+const PROFILE_FIELDS = ["fullName", "email", "phone", "serviceNumber", "gender", "language"];
 
 class UserController {
     public router: Router = express.Router();
@@ -34,10 +25,15 @@ class UserController {
     public constructor() {
         this.router.post("/api/register", this.register);
         this.router.post("/api/login", this.login);
+        this.router.post("/api/refresh", this.refresh);
+        this.router.post("/api/logout", this.logout);
+        this.router.post("/api/logout-all", securityMiddleware.verifyToken, this.logoutAll);
         this.router.get("/api/me", securityMiddleware.verifyToken, this.getMe);
         this.router.put("/api/me", securityMiddleware.verifyToken, this.updateMe);
         this.router.delete("/api/me", securityMiddleware.verifyToken, this.deleteMe);
         this.router.put("/api/change-password", securityMiddleware.verifyToken, this.changePassword);
+        this.router.post("/api/forgot-password", this.forgotPassword);
+        this.router.post("/api/reset-password", this.resetPassword);
         this.router.delete("/api/me/profile-image", securityMiddleware.verifyToken, this.removeMyProfileImage);
     }
 
@@ -47,6 +43,12 @@ class UserController {
         try {
             const userData: any = { ...request.body };
 
+            // Onboarding fields are decided by the server, never by the client
+            const inviteCode: string | undefined = userData.inviteCode || undefined;
+            delete userData.inviteCode;
+            delete userData.status;
+            delete userData.tokenVersion;
+
             // Normalize and sanitize input
             if (userData.email) userData.email = String(userData.email).trim().toLowerCase();
             if (userData.fullName) userData.fullName = String(userData.fullName).trim();
@@ -96,12 +98,16 @@ class UserController {
             }
 
             // Hash password before saving (after strength check)
-            userData.password = cyber.hash(userData.password);
+            userData.password = await cyber.hash(userData.password);
 
-            // Create and save user, return JWT token
+            // Create and save user: active (with tokens) when invited, otherwise pending officer approval
             const user = new UserModel(userData);
-            const token = await userService.register(user);
-            response.status(StatusCode.Created).json({ token });
+            const { status, tokens } = await userService.register(user, inviteCode);
+            if (!tokens) {
+                response.status(StatusCode.Created).json({ status, message: "Registration received. An officer will activate your account." });
+                return;
+            }
+            response.status(StatusCode.Created).json({ status, ...tokens });
 
         } catch (err: any) {
             // Cleanup uploaded image if registration fails
@@ -112,7 +118,7 @@ class UserController {
         }
     }
 
-    // Handles user login and returns a JWT token
+    // Handles user login and returns access + refresh tokens
     private async login(request: Request, response: Response, next: Function): Promise<void> {
         try {
             let { email, password } = request.body;
@@ -121,8 +127,45 @@ class UserController {
                 return;
             }
             email = String(email).trim().toLowerCase();
-            const token = await userService.login(email.toLowerCase(), password);
-            response.status(StatusCode.OK).json({ token });
+            const tokens = await userService.login(email.toLowerCase(), password);
+            response.status(StatusCode.OK).json(tokens);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Exchanges a refresh token for a new access + refresh token pair (rotation)
+    private async refresh(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const { refreshToken } = request.body;
+            if (!refreshToken) {
+                response.status(StatusCode.BadRequest).json({ message: "refreshToken is required." });
+                return;
+            }
+            const tokens = await tokenService.refresh(refreshToken);
+            response.status(StatusCode.OK).json(tokens);
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Logs out the current device by revoking its refresh token
+    private async logout(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const { refreshToken } = request.body;
+            if (refreshToken) await tokenService.revoke(refreshToken);
+            response.status(StatusCode.NoContent).send();
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Logs out all devices: revokes every refresh token and invalidates issued access tokens
+    private async logoutAll(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const userFromToken = (request as any).user;
+            await tokenService.revokeAll(userFromToken._id);
+            response.status(StatusCode.NoContent).send();
         } catch (err: any) {
             next(err);
         }
@@ -151,27 +194,17 @@ class UserController {
         let newImageRelForCleanup: string | undefined;
         try {
             const userFromToken = (request as any).user;
-            const updateData: any = request.body || {};
+            // Only profile fields: role, status, volunteer data, password, token version and _id (dotted paths included) stay out
+            const body = request.body || {};
+            const updateData: any = {};
+            for (const field of PROFILE_FIELDS) {
+                if (body[field] !== undefined) updateData[field] = body[field];
+            }
             let oldImagePathRelative: string | undefined;
 
             // Normalize email if present
             if (updateData.email) updateData.email = String(updateData.email).trim().toLowerCase();
 
-            // Parse volunteerData if sent as a string (form-data)
-            if (updateData.volunteerData && typeof updateData.volunteerData === "string") {
-                try {
-                    updateData.volunteerData = JSON.parse(updateData.volunteerData);
-                } catch {
-                    const error = new Error("Invalid volunteerData format.");
-                    return next(error);
-                }
-            }
-
-            // Prevent role, password, and _id from being updated
-            delete updateData.role;
-            delete updateData.password;
-            delete updateData._id;
-
             // Get current user to retrieve old image path & gender
             const userBeforeUpdate = await UserModel.findById(userFromToken._id).exec();
             if (!userBeforeUpdate) {
@@ -218,6 +251,11 @@ class UserController {
                 safeDeleteProfileImageIfPersonal(oldImagePathRelative);
             }
 
+            const changes = auditService.diff(userBeforeUpdate.toObject(), updatedUser, [...PROFILE_FIELDS, "profileImage"]);
+            if (changes.length > 0) {
+                void auditService.record({ actor: auditService.byUser(userFromToken._id), action: "user.update", targetType: "user", targetId: userFromToken._id, changes });
+            }
+
             delete (updatedUser as any).password;
             const assetsBase = `${request.protocol}://${request.get("host")}/1-assets/`;
             (updatedUser as any).profileImageUrl = updatedUser.profileImage ? assetsBase + updatedUser.profileImage : null;
@@ -241,6 +279,16 @@ class UserController {
                 return;
             }
             safeDeleteProfileImageIfPersonal(user.profileImage);
+            await tokenService.deleteAllForUser(String(user._id));
+            await calendarService.revokeFeed(String(user._id));
+            authUserService.invalidate(String(user._id));
+            void auditService.record({
+                actor: auditService.byUser(userFromToken._id),
+                action: "user.delete",
+                targetType: "user",
+                targetId: userFromToken._id,
+                changes: auditService.diff(user.toObject(), {}, ["fullName", "email", "role", "serviceNumber"])
+            });
             response.status(StatusCode.NoContent).send();
         } catch (err: any) {
             next(err);
@@ -264,8 +312,8 @@ class UserController {
                 return;
             }
 
-            const currentHashed = cyber.hash(currentPassword);
-            if (user.password !== currentHashed) {
+            const { valid } = await cyber.verifyPassword(currentPassword, user.password);
+            if (!valid) {
                 response.status(StatusCode.Unauthorized).json({ message: "Current password is incorrect." });
                 return;
             }
@@ -277,12 +325,56 @@ class UserController {
                 return;
             }
 
-            user.password = cyber.hash(newPassword);
-            // Optional: track the change time so you can invalidate old JWTs later
-            (user as any).passwordChangedAt = new Date();
+            user.password = await cyber.hash(newPassword);
+            user.passwordChangedAt = new Date();
             await user.save();
 
-            response.status(StatusCode.OK).json({ message: "Password updated successfully." });
+            // End every existing session, then keep this device logged in with fresh tokens
+            await tokenService.revokeAll(String(user._id));
+            user.tokenVersion += 1;
+            const tokens = await tokenService.issue(user);
+            void auditService.record({ actor: auditService.byUser(userFromToken._id), action: "user.password", targetType: "user", targetId: userFromToken._id, details: { via: "change" } });
+
+            response.status(StatusCode.OK).json({ message: "Password updated successfully.", ...tokens });
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Emails a password reset link. Always answers the same, whether or not the email exists.
+    private async forgotPassword(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const { email } = request.body;
+            if (!email) {
+                response.status(StatusCode.BadRequest).json({ message: "Email is required." });
+                return;
+            }
+            userService.requestPasswordReset(email);
+            response.status(StatusCode.OK).json({ message: "If this email is registered, a reset link has been sent." });
+        } catch (err: any) {
+            next(err);
+        }
+    }
+
+    // Sets a new password using a reset token from the email
+    private async resetPassword(request: Request, response: Response, next: Function): Promise<void> {
+        try {
+            const { token, newPassword } = request.body;
+            if (!token || !newPassword) {
+                response.status(StatusCode.BadRequest).json({ message: "token and newPassword are required." });
+                return;
+            }
+
+            // Strength check needs the account's email/name
+            const user = await userService.getPasswordResetUser(token);
+            const strength = checkPasswordStrength(newPassword, user.email, user.fullName);
+            if (!strength.ok) {
+                response.status(StatusCode.BadRequest).json({ message: "Weak password.", reasons: strength.reasons });
+                return;
+            }
+
+            await userService.resetPassword(token, newPassword);
+            response.status(StatusCode.OK).json({ message: "Password has been reset." });
         } catch (err: any) {
             next(err);
         }
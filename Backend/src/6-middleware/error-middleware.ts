@@ -1,7 +1,9 @@
+import mongoose from "mongoose";
 import { NextFunction, Request, Response } from "express";
 import { StatusCode } from "../3-models/status-code";
 import { RouteNotFound } from "../3-models/client-errors";
 import { appConfig } from "../2-utils/app-config";
+import { auditService } from "../4-services/audit-service";
 
 class ErrorMiddleware {
 
@@ -11,11 +13,24 @@ class ErrorMiddleware {
         // Log the error: 
         console.log(err);
 
-        const status = err.status || StatusCode.InternalServerError;
+        // Schema validation and bad ids are client input mistakes, not crashes:
+        const isBadInput = err instanceof mongoose.Error.ValidationError || err instanceof mongoose.Error.CastError;
+        const status = err.status || (isBadInput ? StatusCode.BadRequest : StatusCode.InternalServerError);
         const isCrash = status >= 500 && status <= 599;
         const message = appConfig.isProduction && isCrash ? "Some error, please try again." : err.message;
 
-        // Log error to database...
+        // Log server errors to database (client errors are expected and not kept):
+        if (isCrash) {
+            const user = (request as any).user;
+            // The route pattern, not the URL: paths and query strings may carry secrets (calendar feed token)
+            const url = request.route ? request.baseUrl + request.route.path : "(no route)";
+            void auditService.record({
+                actor: user ? auditService.byUser(user._id) : { source: "system" },
+                action: "system.error",
+                targetType: "request",
+                details: { method: request.method, url, status, message: err.message, stack: err.stack }
+            });
+        }
 
         response.status(status).json({ message });
     }
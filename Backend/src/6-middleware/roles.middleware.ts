@@ -1,12 +1,13 @@
 // Role-check middleware: allow only requests from users with one of the given roles.
 import { RequestHandler } from "express";
+import { AccountStatus } from "../3-models/account-status";
 
 export function requireRole(...roles: Array<"officer" | "volunteer">): RequestHandler {
   return (req, res, next) => {
     const user = (req as any).user;
 
-    // If no user or role mismatch — block request
-    if (!user || !roles.includes(user.role)) {
+    // If no user, inactive account or role mismatch — block request
+    if (!user || user.status !== AccountStatus.Active || !roles.includes(user.role)) {
       res.status(403).json({ message: "Forbidden" });
       return;
     }
@@ -2,24 +2,42 @@ import { NextFunction, Request, Response } from "express";
 import { cyber } from "../2-utils/cyber";
 import { ForbiddenError } from "../3-models/client-errors";
 import striptags from "striptags";
+import { authUserService } from "../4-services/auth-user-service";
+import { AccountStatus } from "../3-models/account-status";
 
 
 
 class SecurityMiddleware {
-    public verifyToken(request: Request, response: Response, next: NextFunction): void {
-        const authHeader = request.headers.authorization || "";
-        const token = authHeader.startsWith("Bearer ") ? authHeader.substring(7) : undefined;
+    // Valid signature is not enough: the account must still exist and the token must not be revoked.
+    // The token only carries the user id - role is resolved per request (briefly cached).
+    public async verifyToken(request: Request, response: Response, next: NextFunction): Promise<void> {
+        try {
+            const authHeader = request.headers.authorization || "";
+            const token = authHeader.startsWith("Bearer ") ? authHeader.substring(7) : undefined;
 
-        if (!token || !cyber.verifyToken(token)) {
-            const err = new ForbiddenError("You are not logged-in.");
+            const claims = token ? cyber.getClaimsFromToken(token) : null;
+            if (!claims) {
+                next(new ForbiddenError("You are not logged-in."));
+                return;
+            }
+
+            const user = await authUserService.get(claims.userId);
+            if (!user || user.tokenVersion !== claims.tokenVersion) {
+                next(new ForbiddenError("Your session has ended, please log in again."));
+                return;
+            }
+            if (user.status !== AccountStatus.Active) {
+                next(new ForbiddenError("Your account is not active."));
+                return;
+            }
+
+            // Attach user to request (for use in controllers)
+            (request as any).user = user;
+            next();
+        }
+        catch (err: any) {
             next(err);
-            return;
         }
-
-        // Attach user to request (for use in controllers)
-        const user = cyber.getUserFromToken(token);
-        (request as any).user = user;
-        next();
     }
 
 
@@ -9,6 +9,14 @@ import fileUpload from "express-fileupload";
 import path from "path";
 import fs from "fs";
 import { shiftController } from "./5-controllers/shift-controller";
+import { schedulerService } from "./4-services/scheduler-service";
+import { shiftService } from "./4-services/shift-service";
+import { shiftTemplateController } from "./5-controllers/shift-template-controller";
+import { userAdminController } from "./5-controllers/user-admin-controller";
+import { reportController } from "./5-controllers/report-controller";
+import { calendarController } from "./5-controllers/calendar-controller";
+import { auditController } from "./5-controllers/audit-controller";
+import { availabilityController } from "./5-controllers/availability-controller";
 
 /**
  * App - initializes Express, connects to MongoDB and wires middleware + controllers.
@@ -19,6 +27,11 @@ class App {
         // Connect to MongoDB (must complete before handling requests)
         await mongoose.connect(appConfig.mongodbConnectionString);
 
+        // Data upkeep: normalize shift dates / drop empty duplicates before the one-shift-per-day index is built,
+        // and remove the registration status field that duplicated the approved flag
+        await shiftService.prepareDayIndex();
+        await shiftService.clearRegistrationStatus();
+
         // Express app
         const server = express();
 
@@ -31,7 +44,13 @@ class App {
         // Register routes from controllers
         server.use(securityMiddleware.preventXssAttack);
         server.use(shiftController.router);
+        server.use(shiftTemplateController.router);
         server.use(userController.router);
+        server.use(userAdminController.router);
+        server.use(reportController.router);
+        server.use(calendarController.router);
+        server.use(auditController.router);
+        server.use(availabilityController.router);
 
         // Resolve static assets root (supports working from src or the built folder)
         const candidateRootA = path.join(__dirname, "..", "1-assets"); // project root assets
@@ -49,6 +68,9 @@ class App {
         server.use(errorMiddleware.routeNotFound);
         server.use(errorMiddleware.catchAll);
 
+        // Background jobs: waitlist offer expiry, auto-lock before shift start
+        schedulerService.start();
+
         // Start listening
         server.listen(appConfig.port, () =>
             console.log("Listening on http://localhost:" + appConfig.port)
@@ -0,0 +1,189 @@
+import { after, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import { IShift, ShiftModel } from "../src/3-models/shift-model";
+import { UserModel } from "../src/3-models/user-model";
+import { UserRole } from "../src/3-models/role";
+import { ShiftType } from "../src/3-models/shift-type";
+import { Unit } from "../src/3-models/unit";
+import { VolunteerType } from "../src/3-models/volunteer-type";
+import { shiftService, slotHolders } from "../src/4-services/shift-service";
+import { conflictService } from "../src/4-services/conflict-service";
+import { notificationService } from "../src/4-services/notification-service";
+import { auditService } from "../src/4-services/audit-service";
+
+/**
+ * Stress test for concurrent registrations on one shift.
+ * No database server: the shifts collection is a small in-memory store behind the real models, so
+ * findById / save() run as in production (casting, delta updates, the schema's version checks).
+ * Every read and write yields, letting parallel requests interleave between loading and saving.
+ */
+
+const { BSON } = mongoose.mongo;
+const CAPACITY = 5;
+
+type Stored = mongoose.mongo.Document;
+
+// The collection's documents, serialized so every read gets its own copy
+const documents = new Map<string, Uint8Array>();
+
+// Let other pending requests run
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+function load(id: unknown): Stored | null {
+    const bytes = documents.get(String(id));
+    return bytes ? BSON.deserialize(bytes, { promoteValues: true }) : null;
+}
+
+function store(doc: Stored): void {
+    documents.set(String(doc._id), BSON.serialize(doc));
+}
+
+// Equality filter, as save() sends it ({ _id, __v })
+function matches(doc: Stored, filter: Stored): boolean {
+    return Object.entries(filter).every(([key, value]) => String(doc[key]) === String(value));
+}
+
+// Parent object and last key of a dotted path (e.g. "registeredVolunteers.0.approved")
+function locate(doc: Stored, path: string): [Stored, string] {
+    const keys = path.split(".");
+    const last = keys.pop()!;
+    let target = doc;
+    for (const key of keys) target = target[key] ??= {};
+    return [target, last];
+}
+
+// The update operators save() produces for this schema
+function apply(doc: Stored, update: Stored): void {
+    for (const [op, fields] of Object.entries(update)) {
+        for (const [path, value] of Object.entries(fields as Stored)) {
+            const [target, key] = locate(doc, path);
+            if (op === "$set") target[key] = value;
+            else if (op === "$unset") delete target[key];
+            else if (op === "$inc") target[key] = (target[key] ?? 0) + value;
+            else if (op === "$push") target[key] = [...(target[key] ?? []), ...(value.$each ?? [value])];
+            else throw new Error(`Unsupported update operator ${op}`);
+        }
+    }
+}
+
+mock.method(ShiftModel.collection, "findOne", async (filter: Stored) => {
+    await tick();
+    return load(filter._id);
+});
+mock.method(ShiftModel.collection, "insertOne", async (doc: Stored) => {
+    await tick();
+    store(BSON.deserialize(BSON.serialize(doc), { promoteValues: true }));
+    return { acknowledged: true, insertedId: doc._id };
+});
+mock.method(ShiftModel.collection, "updateOne", async (filter: Stored, update: Stored) => {
+    await tick();
+    const doc = load(filter._id);
+    if (!doc || !matches(doc, filter)) return { acknowledged: true, matchedCount: 0, modifiedCount: 0 };
+    // Through BSON, so mongoose arrays and subdocuments become plain values
+    apply(doc, BSON.deserialize(BSON.serialize(update), { promoteValues: true }));
+    store(doc);
+    return { acknowledged: true, matchedCount: 1, modifiedCount: 1 };
+});
+
+// Every volunteer is a שלב א without a licence
+mock.method(UserModel.collection, "findOne", async (filter: Stored) => ({
+    _id: filter._id,
+    role: UserRole.Volunteer,
+    volunteerData: { volunteerType: VolunteerType.Alef, hasDriverLicense: false }
+}));
+mock.method(conflictService, "findForRegistration", async () => []);
+mock.method(notificationService, "registrationReceived", async () => {});
+mock.method(notificationService, "waitlistOffer", async () => {});
+mock.method(auditService, "record", async () => {});
+
+after(() => mock.restoreAll());
+
+let shiftId: string;
+
+beforeEach(async () => {
+    documents.clear();
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+    date.setUTCDate(date.getUTCDate() + 7); // Far from the auto-lock
+    const shift = await new ShiftModel({ date, shiftType: ShiftType.Boker, unit: Unit.Yachas1, requiredVolunteers: CAPACITY, status: "published" }).save();
+    shiftId = String(shift._id);
+});
+
+function volunteers(count: number): string[] {
+    return Array.from({ length: count }, () => new mongoose.Types.ObjectId().toString());
+}
+
+function register(userId: string) {
+    return shiftService.register({ shiftId, userId, arrivalTime: "06:30", leavingTime: "15:00" });
+}
+
+function unregister(userId: string) {
+    return shiftService.unregister(shiftId, userId);
+}
+
+// The stored shift, loaded through the model
+async function current(): Promise<IShift> {
+    const shift = await ShiftModel.findById(shiftId).exec();
+    assert.ok(shift);
+    return shift;
+}
+
+// Every request went through (a full shift waitlists, it doesn't refuse)
+function assertAllSucceeded(results: PromiseSettledResult<unknown>[]) {
+    const failures = results.flatMap(r => r.status === "rejected" ? [r.reason.message] : []);
+    assert.deepEqual(failures, []);
+}
+
+// No overbooking and nobody listed twice
+function assertConsistent(shift: IShift) {
+    const main = shift.registeredVolunteers.map(r => String(r.userId));
+    const waiting = shift.waitlistVolunteers.map(w => String(w.userId));
+    assert.ok(main.length <= CAPACITY, `main list has ${main.length} volunteers`);
+    assert.ok(slotHolders(shift).length <= CAPACITY, "held offers overbook the shift");
+    assert.equal(new Set([...main, ...waiting]).size, main.length + waiting.length, "a volunteer is listed twice");
+    return { main, waiting };
+}
+
+test("parallel registrations fill the shift, waitlist the rest and never overbook", async () => {
+    const ids = volunteers(20);
+    assertAllSucceeded(await Promise.allSettled(ids.map(register)));
+
+    const { main, waiting } = assertConsistent(await current());
+    assert.equal(main.length, CAPACITY);
+    assert.equal(waiting.length, ids.length - CAPACITY);
+    assert.deepEqual([...main, ...waiting].sort(), [...ids].sort());
+});
+
+test("the same volunteer registering in parallel is listed once", async () => {
+    // A full shift with a waitlist: joining it is a plain $push, guarded only by optimistic concurrency
+    const early = volunteers(CAPACITY + 1);
+    for (const id of early) await register(id);
+
+    const [id] = volunteers(1);
+    const results = await Promise.allSettled(Array.from({ length: 5 }, () => register(id)));
+
+    assert.equal(results.filter(r => r.status === "fulfilled").length, 1);
+    for (const r of results) {
+        if (r.status === "rejected") assert.equal(r.reason.message, "Already registered (or waitlisted)");
+    }
+    const { main, waiting } = assertConsistent(await current());
+    assert.deepEqual([...main, ...waiting].sort(), [...early, id].sort());
+});
+
+test("parallel register and unregister keep the roster consistent", async () => {
+    const early = volunteers(CAPACITY + 3);
+    for (const id of early) await register(id);
+
+    const leaving = early.slice(0, CAPACITY);
+    const joining = volunteers(6);
+    assertAllSucceeded(await Promise.allSettled([...leaving.map(unregister), ...joining.map(register)]));
+
+    const shift = await current();
+    const { main, waiting } = assertConsistent(shift);
+    const expected = [...early.slice(CAPACITY), ...joining];
+    assert.deepEqual([...main, ...waiting].sort(), expected.sort());
+    for (const id of leaving) {
+        assert.ok(shift.closedRegistrations.some(c => String(c.userId) === id), "a withdrawal left no history");
+    }
+});